@@ -51,6 +51,38 @@ test.describe('Example Feature', () => {
   });
 });
 
+test.describe('Advanced dynamic forms', () => {
+  test('should swap the fields of a discriminated union variant', async ({ page }) => {
+    await page.goto('/phase2');
+    const method = page.getByLabel('Method', { exact: true });
+
+    await method.selectOption({ label: 'Bank Transfer' });
+    await expect(page.getByLabel('IBAN')).toBeVisible();
+
+    await method.selectOption({ label: 'Check' });
+    await expect(page.getByLabel('IBAN')).toHaveCount(0);
+    await expect(page.getByLabel('Payee')).toBeVisible();
+  });
+
+  test('should add and remove tag chips with the keyboard', async ({ page }) => {
+    await page.goto('/phase2');
+    const input = page.getByRole('textbox', { name: 'Add Certifications...' });
+
+    await input.fill('CISA');
+    await input.press('Enter');
+    await input.fill('PMP');
+    await input.press('Enter');
+    await expect(page.getByRole('button', { name: 'Remove CISA' })).toBeVisible();
+    await expect(page.getByRole('button', { name: 'Remove PMP' })).toBeVisible();
+
+    await input.press('Backspace');
+    await expect(page.getByRole('button', { name: 'Remove PMP' })).toHaveCount(0);
+
+    await page.getByRole('button', { name: 'Remove CISA' }).press('Delete');
+    await expect(page.getByRole('button', { name: 'Remove CISA' })).toHaveCount(0);
+  });
+});
+
 /**
  * Accessibility tests
  */
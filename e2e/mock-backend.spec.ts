@@ -0,0 +1,172 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * E2E tests against the mock API backend (`npm run start:mock`)
+ * Data is seeded deterministically, so record numbers below are stable.
+ */
+test.describe('Mock backend', () => {
+  test('should list seeded audits', async ({ page }) => {
+    await page.goto('/audits');
+    await expect(page.getByRole('heading', { name: 'Audits' })).toBeVisible();
+    await expect(page.getByRole('cell', { name: '24001', exact: true })).toBeVisible();
+  });
+
+  test('should list seeded suppliers', async ({ page }) => {
+    await page.goto('/suppliers');
+    await expect(page.getByRole('heading', { name: 'Suppliers' })).toBeVisible();
+    await expect(page.getByRole('cell', { name: '1001', exact: true })).toBeVisible();
+  });
+
+  test('should list seeded personnel', async ({ page }) => {
+    await page.goto('/personnel');
+    await expect(page.getByRole('heading', { name: 'Personnel' })).toBeVisible();
+    await expect(page.getByRole('table')).toBeVisible();
+    await expect(page.getByRole('row')).not.toHaveCount(1);
+  });
+
+  test('should load more personnel while scrolling', async ({ page }) => {
+    await page.goto('/personnel');
+    const viewport = page.locator('cdk-virtual-scroll-viewport');
+    await expect(page.getByText(/Showing \d+ of 80 results/)).toBeVisible();
+
+    await expect(async () => {
+      await viewport.evaluate((element) => element.scrollTo(0, element.scrollHeight));
+      await expect(page.getByText('Showing 80 of 80 results')).toBeVisible({ timeout: 1000 });
+    }).toPass();
+  });
+
+  test('should bulk delete selected audits', async ({ page }) => {
+    await page.goto('/audits');
+    await page.getByRole('checkbox', { name: 'Select row' }).first().check();
+    await expect(page.getByText('1 selected')).toBeVisible();
+
+    await page.getByRole('toolbar', { name: 'Selected rows' }).getByRole('button', { name: 'Delete' }).click();
+    await page.getByRole('dialog').getByRole('button', { name: 'Delete' }).click();
+
+    await expect(page.getByText('1 audit deleted')).toBeVisible();
+    await expect(page.getByRole('cell', { name: '24001', exact: true })).toHaveCount(0);
+  });
+
+  test('should expand an audit row to show its phases and files', async ({ page }) => {
+    await page.goto('/audits');
+    await page.getByRole('button', { name: 'Show details' }).first().click();
+
+    await expect(page.getByText(/\d+ phases? · \d+ files?/)).toBeVisible();
+    await expect(page.getByRole('button', { name: 'Hide details' })).toHaveCount(1);
+  });
+
+  test('should group audits by supplier and collapse a group', async ({ page }) => {
+    await page.goto('/audits');
+    await page.getByRole('combobox', { name: 'Group by' }).selectOption({ label: 'Group by Supplier #' });
+
+    const groupToggle = page.getByRole('button', { name: /^Supplier #: / }).first();
+    await expect(groupToggle).toHaveAttribute('aria-expanded', 'true');
+
+    await groupToggle.click();
+    await expect(groupToggle).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  test('should reject an audit end date before its start date', async ({ page }) => {
+    await page.goto('/audits/new');
+    await page.getByLabel('Start Date').fill('2024-05-10');
+    await page.getByLabel('End Date').fill('2024-05-01');
+    await expect(page.getByText('End date must be after start date')).toBeVisible();
+
+    await page.getByLabel('Start Date').fill('2024-04-20');
+    await expect(page.getByText('End date must be after start date')).toHaveCount(0);
+  });
+
+  test('should search supplier options from the server', async ({ page }) => {
+    await page.goto('/audits/new');
+    await page.getByRole('button', { name: 'Search supplier...' }).click();
+    await page.getByPlaceholder('Search...').fill('1001');
+
+    const option = page.getByText(/^\s*1001 - /);
+    await expect(option).toHaveCount(1);
+    await option.click();
+    await expect(page.getByRole('button', { name: /^1001 - / })).toBeVisible();
+  });
+
+  test('should create an audit for a NUPIC audit number', async ({ page }) => {
+    await page.goto('/audits/new');
+    await page.getByRole('button', { name: 'Search audit number...' }).click();
+    await page.getByPlaceholder('Search...').fill('25001');
+    await page.getByText(/^\s*25001 - /).click();
+    await expect(page.getByRole('status').filter({ hasText: 'Checking...' })).toHaveCount(0);
+    await expect(page.getByText('Audit number 25001 already exists')).toHaveCount(0);
+
+    await page.getByRole('button', { name: 'Search supplier...' }).click();
+    await page.getByPlaceholder('Search...').fill('1001');
+    await page.getByText(/^\s*1001 - /).click();
+    await page.getByLabel('Lead Utility Code').fill('DUK');
+    await page.getByLabel('Audit Type ID').fill('1');
+    await page.getByLabel('Contact Person Email').fill('quality@supplier.example.com');
+    await page.getByLabel('Alternate Contact Email').fill('auditor@duk.example.com');
+    await page.getByRole('button', { name: 'Create Audit' }).click();
+
+    await expect(page.getByText('Audit created successfully')).toBeVisible();
+
+    // Navigate within the app: reloading would reset the mock data
+    await expect(page).toHaveURL(/\/audits(\?|$)/);
+    await page.getByRole('button', { name: 'Add Audit' }).click();
+    await page.getByRole('button', { name: 'Search audit number...' }).click();
+    await page.getByPlaceholder('Search...').fill('25001');
+    await page.getByText(/^\s*25001 - /).click();
+    await expect(page.getByText('Audit number 25001 already exists')).toBeVisible();
+  });
+
+  test('should flag an existing supplier number while typing', async ({ page }) => {
+    await page.goto('/suppliers/new');
+    await page.getByLabel('Supplier Number').fill('1001');
+    await expect(page.getByText('Supplier 1001 already exists')).toBeVisible();
+
+    await page.getByLabel('Supplier Number').fill('9999');
+    await expect(page.getByText('Supplier 9999 already exists')).toHaveCount(0);
+    await expect(page.getByRole('status').filter({ hasText: 'Checking...' })).toHaveCount(0);
+  });
+
+  test('should show the audit files of a seeded audit', async ({ page }) => {
+    await page.goto('/audits/1/files');
+    await expect(page.getByText('24001').first()).toBeVisible();
+  });
+
+  test('should edit a file name inline', async ({ page }) => {
+    await page.goto('/audits/1/files');
+    await page.getByTitle('Click to edit').first().click();
+
+    const editor = page.getByRole('textbox', { name: 'Edit File Name' });
+    await editor.fill('');
+    await editor.press('Enter');
+    await expect(page.getByRole('alert').filter({ hasText: 'File name is required' })).toBeVisible();
+
+    await editor.fill('renamed-report.pdf');
+    await editor.press('Tab');
+
+    await expect(page.getByRole('cell', { name: 'renamed-report.pdf', exact: true })).toBeVisible();
+    await expect(page.getByRole('spinbutton', { name: 'Edit Order' })).toBeFocused();
+  });
+});
+
+test.describe('Mock auth', () => {
+  test('should deny role-restricted routes to users without the role', async ({ page }) => {
+    await page.addInitScript(() => localStorage.setItem('mockAuth.roles', 'Auditor'));
+    await page.goto('/suppliers/new');
+    await expect(page).toHaveURL(/\/unauthorized/);
+  });
+
+  test('should hide actions that lead to role-restricted routes', async ({ page }) => {
+    await page.addInitScript(() => localStorage.setItem('mockAuth.roles', 'Auditor'));
+    await page.goto('/suppliers');
+    await expect(page.getByRole('cell', { name: '1001', exact: true })).toBeVisible();
+    await expect(page.getByRole('button', { name: 'Add Supplier' })).toHaveCount(0);
+
+    await page.goto('/audits');
+    await expect(page.getByRole('button', { name: 'Add Audit' })).toBeVisible();
+  });
+
+  test('should allow role-restricted routes to admins', async ({ page }) => {
+    await page.addInitScript(() => localStorage.setItem('mockAuth.roles', 'Admin'));
+    await page.goto('/suppliers/new');
+    await expect(page).toHaveURL(/\/suppliers\/new/);
+  });
+});
@@ -15,7 +15,7 @@ export default [
       parserOptions: {
         ecmaVersion: 2022,
         sourceType: 'module',
-        project: './tsconfig.json',
+        project: ['./tsconfig.app.json', './tsconfig.spec.json'],
       },
     },
     plugins: {
@@ -32,7 +32,7 @@ export default defineConfig({
   ],
 
   webServer: {
-    command: 'npm run start',
+    command: 'npm run start:mock',
     url: 'http://localhost:4200',
     reuseExistingServer: !process.env.CI,
   },
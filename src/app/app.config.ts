@@ -1,17 +1,16 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, provideAppInitializer, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter, withRouterConfig  } from '@angular/router';
 import { HTTP_INTERCEPTORS, provideHttpClient, withInterceptors } from '@angular/common/http';
-import {
-  provideAngularQuery,
-  QueryClient,
-} from '@tanstack/angular-query-experimental';
+import { provideTanStackQuery } from '@tanstack/angular-query-experimental';
 import { IPublicClientApplication, PublicClientApplication, InteractionType, BrowserCacheLocation, LogLevel } from '@azure/msal-browser';
 import { MsalInterceptor, MSAL_INSTANCE, MsalInterceptorConfiguration, MsalGuardConfiguration, MSAL_GUARD_CONFIG, MSAL_INTERCEPTOR_CONFIG, MsalService, MsalGuard, MsalBroadcastService } from '@azure/msal-angular';
-import { provideAnimations } from '@angular/platform-browser/animations';
+import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
 
 import { routes } from './app.routes';
 import { apiInterceptor } from './core/http/api.interceptor';
-import { createQueryClient } from './core/query/query-client.config';
+import { QUERY_CLIENT } from './core/query/query-client.config';
+import { configureApiClient } from './core/api/api-client.config';
+import { MOCK_BACKEND_PROVIDERS } from './core/mock/mock-backend.config';
 import { environment } from '../environments/environment';
 
 /**
@@ -88,9 +87,10 @@ export const appConfig: ApplicationConfig = {
     provideRouter(routes, withRouterConfig({ 
       onSameUrlNavigation: 'reload'
     })),
-    provideAnimations(), // Add this line
+    provideAnimationsAsync(), // Animations load on first use, outside the initial bundle
     provideHttpClient(withInterceptors([apiInterceptor])),
-    provideAngularQuery(createQueryClient()),
+    provideTanStackQuery(QUERY_CLIENT),
+    provideAppInitializer(configureApiClient),
 
     // MSAL Configuration
     {
@@ -113,5 +113,8 @@ export const appConfig: ApplicationConfig = {
     MsalService,
     MsalGuard,
     MsalBroadcastService,
+
+    // Offline development / e2e: seeded in-memory API and a fake signed-in user (mock configuration only)
+    ...MOCK_BACKEND_PROVIDERS,
   ]
 };
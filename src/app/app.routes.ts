@@ -1,6 +1,11 @@
 import { Routes } from '@angular/router';
 import { MsalRedirectComponent } from '@azure/msal-angular';
 import { authGuard } from './core/auth/auth.guard';
+import { roleGuard } from './core/auth/role.guard';
+import { AppRoles, AuthRequirement } from './core/auth/auth.types';
+
+// Roles allowed to change audit data
+const auditEditors: AuthRequirement = { roles: [AppRoles.Admin, AppRoles.Auditor] };
 
 export const routes: Routes = [
   {
@@ -43,13 +48,15 @@ export const routes: Routes = [
     path: 'suppliers/new',
     loadComponent: () =>
       import('./features/suppliers/supplier-edit.component').then((m) => m.SupplierEditComponent),
-    canActivate: [authGuard],
+    canActivate: [authGuard, roleGuard],
+    data: { roles: [AppRoles.Admin] } satisfies AuthRequirement,
   },
   {
     path: 'suppliers/:id/edit',
     loadComponent: () =>
       import('./features/suppliers/supplier-edit.component').then((m) => m.SupplierEditComponent),
-    canActivate: [authGuard],
+    canActivate: [authGuard, roleGuard],
+    data: { roles: [AppRoles.Admin] } satisfies AuthRequirement,
   },
   {
     path: 'audits',
@@ -61,14 +68,43 @@ export const routes: Routes = [
     path: 'audits/new',
     loadComponent: () =>
       import('./features/audits/audit-edit.component').then((m) => m.AuditEditComponent),
-    canActivate: [authGuard],
+    canActivate: [authGuard, roleGuard],
+    data: auditEditors,
   },
   {
     path: 'audits/:id/edit',
     loadComponent: () =>
       import('./features/audits/audit-edit.component').then((m) => m.AuditEditComponent),
+    canActivate: [authGuard, roleGuard],
+    data: auditEditors,
+  },
+  {
+    path: 'audits/:id/phases',
+    loadComponent: () =>
+      import('./features/audits/audit-phases.component').then((m) => m.AuditPhasesComponent),
+    canActivate: [authGuard, roleGuard],
+    data: auditEditors,
+  },
+  {
+    path: 'audits/:id/files',
+    loadComponent: () =>
+      import('./features/audits/audit-files.component').then((m) => m.AuditFilesComponent),
     canActivate: [authGuard],
   },
+  {
+    path: 'audits/:id/merge',
+    loadComponent: () =>
+      import('./features/audits/audit-merge.component').then((m) => m.AuditMergeComponent),
+    canActivate: [authGuard, roleGuard],
+    data: auditEditors,
+  },
+  {
+    path: 'audits/:id/bookmarks',
+    loadComponent: () =>
+      import('./features/audits/audit-bookmarks.component').then((m) => m.AuditBookmarksComponent),
+    canActivate: [authGuard, roleGuard],
+    data: auditEditors,
+  },
   {
     // Needed for handling redirect after login
     path: 'auth',
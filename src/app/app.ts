@@ -6,12 +6,14 @@ import { Subject } from 'rxjs';
 import { filter, takeUntil } from 'rxjs/operators';
 import { CommonModule } from '@angular/common';
 import { AuthService } from './core/auth/auth.service';
+import { ReturnUrlService } from './core/auth/return-url.service';
 import { environment } from '../environments/environment';
 import { NavigationComponent } from './shared/components/navigation/navigation.component';
+import { ToastContainerComponent } from './shared/components/toast';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, CommonModule, NavigationComponent],
+  imports: [RouterOutlet, CommonModule, NavigationComponent, ToastContainerComponent],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
@@ -20,45 +22,27 @@ export class App implements OnInit, OnDestroy {
   protected readonly authService = inject(AuthService);
   private readonly msalService = inject(MsalService);
   private readonly msalBroadcastService = inject(MsalBroadcastService);
+  private readonly returnUrlService = inject(ReturnUrlService);
   private readonly destroy$ = new Subject<void>();
 
   async ngOnInit(): Promise<void> {
-    try {
-      // Ensure MSAL is initialized first
-      await this.msalService.instance.initialize();
+    // AuthService runs MSAL initialize, redirect handling and SSO silent
+    const redirectResponse = await this.authService.whenInitialized();
 
-      // Handle redirect promise (for redirect-based login flows)
-      const redirectResponse = await this.msalService.instance.handleRedirectPromise();
-      if (redirectResponse) {
-        this.msalService.instance.setActiveAccount(redirectResponse.account);
-        this.authService.isAuthenticated.set(true);
-
-        // Redirect to the originally requested URL if available
-        const returnUrl = sessionStorage.getItem('returnUrl');
-        if (returnUrl) {
-          sessionStorage.removeItem('returnUrl');
-          window.location.href = returnUrl;
-        }
-      } else {
-        // No redirect response, attempt SSO Silent authentication
-        console.log('Attempting SSO Silent authentication...');
-        await this.authService.attemptSsoSilent();
-      }
-
-      // Subscribe to login/logout events
-      this.msalBroadcastService.inProgress$
-        .pipe(
-          filter((status: InteractionStatus) => status === InteractionStatus.None),
-          takeUntil(this.destroy$)
-        )
-        .subscribe(() => {
-          this.checkAndSetActiveAccount();
-        });
-    } catch (error) {
-      console.error('Failed to initialize MSAL in app component:', error);
-      // Mark as initialized even on error to prevent infinite loading
-      this.authService.isInitialized.set(true);
+    // Navigate to the originally requested URL (or home) after a redirect login
+    if (redirectResponse) {
+      await this.returnUrlService.restore();
     }
+
+    // Subscribe to login/logout events
+    this.msalBroadcastService.inProgress$
+      .pipe(
+        filter((status: InteractionStatus) => status === InteractionStatus.None),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this.checkAndSetActiveAccount();
+      });
   }
 
   ngOnDestroy(): void {
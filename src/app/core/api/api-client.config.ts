@@ -0,0 +1,31 @@
+import { inject } from '@angular/core';
+import { client } from './generated/client.gen';
+import { AuthService } from '../auth/auth.service';
+import { toAppError } from '../errors/app-error';
+
+let configured = false;
+
+/**
+ * Configure the generated fetch client
+ *
+ * Requests are held until authentication has initialized, mirroring apiInterceptor
+ * for HttpClient, so queries fired on startup don't go out before tokens are available.
+ *
+ * Error responses are normalized into the AppError hierarchy (ProblemDetailsError,
+ * ValidationError, ResultError) before TanStack Query sees them, so `error()` on a
+ * query or mutation always carries a meaningful `message`.
+ *
+ * Must run in an injection context (registered with provideAppInitializer).
+ */
+export function configureApiClient(): void {
+  if (configured) return;
+  configured = true;
+
+  const authService = inject(AuthService);
+
+  client.interceptors.request.use(async (request) => {
+    await authService.whenInitialized();
+    return request;
+  });
+  client.interceptors.error.use((error, response) => toAppError(error, response?.status));
+}
@@ -1,6 +1,7 @@
 import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
 import { AuthService } from './auth.service';
+import { ReturnUrlService } from './return-url.service';
 
 /**
  * Auth guard for protected routes using MSAL with SSO
@@ -11,21 +12,17 @@ import { AuthService } from './auth.service';
 export const authGuard: CanActivateFn = async (route, state) => {
   const authService = inject(AuthService);
   const router = inject(Router);
+  const returnUrlService = inject(ReturnUrlService);
 
   // Wait for authentication initialization to complete
-  // This ensures SSO silent has been attempted
-  const maxWaitTime = 5000; // 5 seconds max wait
-  const startTime = Date.now();
-
-  while (!authService.isInitialized() && (Date.now() - startTime) < maxWaitTime) {
-    await new Promise(resolve => setTimeout(resolve, 100));
-  }
+  // This ensures redirect handling and SSO silent have finished
+  await authService.whenInitialized();
 
   const isAuthenticated = authService.isAuthenticated();
 
   if (!isAuthenticated) {
     // Store the attempted URL for redirecting after login
-    sessionStorage.setItem('returnUrl', state.url);
+    returnUrlService.save(state.url);
 
     // Trigger login redirect since SSO didn't work
     // This will redirect to Azure AD login page
@@ -35,3 +32,4 @@ export const authGuard: CanActivateFn = async (route, state) => {
 
   return true;
 };
+
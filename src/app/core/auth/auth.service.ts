@@ -1,4 +1,4 @@
-import { Injectable, inject, signal } from '@angular/core';
+import { Injectable, inject, signal, computed } from '@angular/core';
 import { MsalService, MsalBroadcastService } from '@azure/msal-angular';
 import {
   AuthenticationResult,
@@ -12,6 +12,8 @@ import {
 import { filter, takeUntil } from 'rxjs/operators';
 import { Subject } from 'rxjs';
 import { environment } from '../../../environments/environment';
+import { AuthRequirement } from './auth.types';
+import { ReturnUrlService } from './return-url.service';
 
 /**
  * Auth Service using Microsoft Authentication Library (MSAL)
@@ -23,6 +25,7 @@ import { environment } from '../../../environments/environment';
  * - Get access tokens
  * - Check authentication status
  * - Get user information
+ * - Check app roles and scopes from the ID token claims
  */
 @Injectable({
   providedIn: 'root',
@@ -30,6 +33,7 @@ import { environment } from '../../../environments/environment';
 export class AuthService {
   private readonly msalService = inject(MsalService);
   private readonly msalBroadcastService = inject(MsalBroadcastService);
+  private readonly returnUrlService = inject(ReturnUrlService);
   private readonly destroy$ = new Subject<void>();
 
   // Reactive authentication state
@@ -37,25 +41,49 @@ export class AuthService {
   readonly userInfo = signal<any>(null);
   readonly isInitialized = signal<boolean>(false);
 
+  // App roles (`roles` claim) and delegated scopes (`scp` claim) of the signed-in user
+  readonly roles = computed<string[]>(() => this.toClaimList(this.userInfo()?.roles));
+  readonly scopes = computed<string[]>(() => this.toClaimList(this.userInfo()?.scp));
+
+  // Resolves once MSAL initialize, redirect handling and SSO silent have finished.
+  // Holds the redirect login result, if the app was loaded from one.
+  private readonly initialization: Promise<AuthenticationResult | null>;
+
   constructor() {
-    this.initializeAuthState();
+    this.initialization = this.initializeAuthState();
+  }
+
+  /**
+   * Wait for authentication initialization to complete
+   * Guards and interceptors await this before reading the auth state.
+   *
+   * @returns Promise resolving with the redirect login result, or null when the app wasn't loaded from a redirect
+   */
+  whenInitialized(): Promise<AuthenticationResult | null> {
+    return this.initialization;
   }
 
   /**
-   * Initialize authentication state by checking MSAL accounts
+   * Initialize authentication state
+   * Runs MSAL initialize, handles a pending redirect response and otherwise attempts SSO silent.
+   * Never rejects: failures are logged and leave the user signed out.
    */
-  private async initializeAuthState(): Promise<void> {
+  protected async initializeAuthState(): Promise<AuthenticationResult | null> {
+    let redirectResponse: AuthenticationResult | null = null;
+
     try {
       // Ensure MSAL is initialized
       await this.msalService.instance.initialize();
-      
-      // Check if there are any accounts
-      const accounts = this.msalService.instance.getAllAccounts();
-      this.isAuthenticated.set(accounts.length > 0);
 
-      if (accounts.length > 0) {
-        this.msalService.instance.setActiveAccount(accounts[0]);
+      // Handle redirect promise (for redirect-based login flows)
+      redirectResponse = await this.msalService.instance.handleRedirectPromise();
+      if (redirectResponse?.account) {
+        this.msalService.instance.setActiveAccount(redirectResponse.account);
+        this.isAuthenticated.set(true);
         this.updateUserInfo();
+      } else {
+        // No redirect response, attempt SSO Silent authentication
+        await this.attemptSsoSilent();
       }
 
       // Listen for login success/failure events
@@ -77,7 +105,12 @@ export class AuthService {
         });
     } catch (error) {
       console.error('MSAL initialization failed:', error);
+    } finally {
+      // Mark as initialized even on error to prevent infinite loading
+      this.isInitialized.set(true);
     }
+
+    return redirectResponse;
   }
 
   /**
@@ -95,6 +128,47 @@ export class AuthService {
     }
   }
 
+  /**
+   * Check whether the user has the given app role
+   */
+  hasRole(role: string): boolean {
+    return this.roles().includes(role);
+  }
+
+  /**
+   * Check whether the user satisfies a role/scope requirement.
+   * An empty requirement is always satisfied.
+   */
+  hasPermission(requirement: AuthRequirement | null | undefined): boolean {
+    if (!requirement) {
+      return true;
+    }
+
+    const matches = (required: string[] | undefined, granted: string[]): boolean => {
+      if (!required || required.length === 0) {
+        return true;
+      }
+      return requirement.match === 'all'
+        ? required.every((value) => granted.includes(value))
+        : required.some((value) => granted.includes(value));
+    };
+
+    return matches(requirement.roles, this.roles()) && matches(requirement.scopes, this.scopes());
+  }
+
+  /**
+   * Normalize a claim that may be an array or a space-separated string
+   */
+  private toClaimList(claim: unknown): string[] {
+    if (Array.isArray(claim)) {
+      return claim.filter((value): value is string => typeof value === 'string');
+    }
+    if (typeof claim === 'string') {
+      return claim.split(' ').filter(Boolean);
+    }
+    return [];
+  }
+
   /**
    * Login using popup
    */
@@ -139,6 +213,8 @@ export class AuthService {
    * Logout using popup
    */
   logoutPopup(): void {
+    this.returnUrlService.clear();
+
     const account = this.msalService.instance.getActiveAccount();
     if (account) {
       const logoutRequest: EndSessionRequest = {
@@ -162,6 +238,8 @@ export class AuthService {
    * Logout using redirect
    */
   logoutRedirect(): void {
+    this.returnUrlService.clear();
+
     const account = this.msalService.instance.getActiveAccount();
     if (account) {
       const logoutRequest: EndSessionRequest = {
@@ -233,7 +311,6 @@ export class AuthService {
         this.msalService.instance.setActiveAccount(accounts[0]);
         this.isAuthenticated.set(true);
         this.updateUserInfo();
-        this.isInitialized.set(true);
         return true;
       }
 
@@ -250,22 +327,18 @@ export class AuthService {
           this.msalService.instance.setActiveAccount(result.account);
           this.isAuthenticated.set(true);
           this.updateUserInfo();
-          this.isInitialized.set(true);
           console.log('SSO Silent authentication successful');
           return true;
         }
       } catch (ssoError: any) {
         // SSO Silent failed - this is expected if user has no active session
         console.log('SSO Silent authentication not available:', ssoError.errorCode || ssoError.message);
-        this.isInitialized.set(true);
         return false;
       }
 
-      this.isInitialized.set(true);
       return false;
     } catch (error) {
       console.error('SSO Silent authentication error:', error);
-      this.isInitialized.set(true);
       return false;
     }
   }
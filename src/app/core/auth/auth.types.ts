@@ -0,0 +1,29 @@
+/**
+ * Authorization types
+ */
+
+/**
+ * App roles assigned to users in the Azure AD app registration
+ * (delivered in the `roles` claim of the ID token)
+ */
+export const AppRoles = {
+  Admin: 'Admin',
+  Auditor: 'Auditor',
+} as const;
+
+export type AppRole = (typeof AppRoles)[keyof typeof AppRoles];
+
+/**
+ * Roles and/or scopes required to access a route or UI element.
+ * Declared in route `data`, on TableAction / NavItem entries, or passed to `*appHasPermission`.
+ */
+export interface AuthRequirement {
+  /** App roles from the `roles` claim */
+  roles?: string[];
+
+  /** Delegated scopes from the `scp` claim */
+  scopes?: string[];
+
+  /** Whether any or all of the listed roles/scopes are needed (default: 'any') */
+  match?: 'any' | 'all';
+}
@@ -0,0 +1,49 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { AuthService } from './auth.service';
+import { AuthRequirement } from './auth.types';
+
+/**
+ * Structural directive that renders its content only when the user
+ * satisfies the given role/scope requirement
+ *
+ * Usage:
+ * ```html
+ * <button *appHasPermission="{ roles: ['Admin'] }">Delete</button>
+ * <a *appHasPermission="item.permission; else locked">{{ item.label }}</a>
+ * ```
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true,
+})
+export class HasPermissionDirective {
+  private readonly authService = inject(AuthService);
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+
+  readonly appHasPermission = input<AuthRequirement | null | undefined>(null);
+  readonly appHasPermissionElse = input<TemplateRef<unknown> | null>(null);
+
+  private rendered: 'then' | 'else' | null = null;
+
+  constructor() {
+    // Re-evaluate whenever the requirement or the user's claims change
+    effect(() => {
+      const allowed = this.authService.hasPermission(this.appHasPermission());
+      const elseTemplate = this.appHasPermissionElse();
+      const next = allowed ? 'then' : elseTemplate ? 'else' : null;
+
+      if (next === this.rendered) {
+        return;
+      }
+
+      this.viewContainer.clear();
+      if (next === 'then') {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+      } else if (next === 'else' && elseTemplate) {
+        this.viewContainer.createEmbeddedView(elseTemplate);
+      }
+      this.rendered = next;
+    });
+  }
+}
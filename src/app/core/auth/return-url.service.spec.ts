@@ -0,0 +1,38 @@
+import { sanitizeReturnUrl } from './return-url.service';
+
+describe('sanitizeReturnUrl', () => {
+  it('should keep root-relative URLs with their query string and fragment', () => {
+    expect(sanitizeReturnUrl('/audits/12/files?phase=3#bookmarks')).toBe('/audits/12/files?phase=3#bookmarks');
+  });
+
+  it('should reject empty values', () => {
+    expect(sanitizeReturnUrl(null)).toBeNull();
+    expect(sanitizeReturnUrl(undefined)).toBeNull();
+    expect(sanitizeReturnUrl('')).toBeNull();
+  });
+
+  it('should reject protocol-relative URLs', () => {
+    expect(sanitizeReturnUrl('//evil.com')).toBeNull();
+    expect(sanitizeReturnUrl('//evil.com/audits')).toBeNull();
+  });
+
+  it('should reject backslash URLs that browsers treat as protocol-relative', () => {
+    expect(sanitizeReturnUrl('/\\evil.com')).toBeNull();
+  });
+
+  it('should reject absolute URLs', () => {
+    expect(sanitizeReturnUrl('https://evil.com/audits')).toBeNull();
+    expect(sanitizeReturnUrl(`${window.location.origin}/audits`)).toBeNull();
+  });
+
+  it('should reject script URLs', () => {
+    expect(sanitizeReturnUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeReturnUrl('JavaScript:alert(1)')).toBeNull();
+  });
+
+  it('should reject the login flow routes', () => {
+    expect(sanitizeReturnUrl('/auth')).toBeNull();
+    expect(sanitizeReturnUrl('/auth/callback?code=abc')).toBeNull();
+    expect(sanitizeReturnUrl('/unauthorized')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, inject } from '@angular/core';
+import { Router } from '@angular/router';
+
+const RETURN_URL_KEY = 'returnUrl';
+
+// Routes that must never be restored (would loop back into the login flow)
+const EXCLUDED_PATHS = ['/auth', '/unauthorized'];
+
+/**
+ * Return URL Service
+ *
+ * Remembers the deep link a user requested before an MSAL redirect login
+ * and restores it through the router (no full page reload) once they are back:
+ * - Only same-origin, root-relative URLs are accepted
+ * - Query string and fragment are preserved
+ * - The stored value is removed once read and on logout
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReturnUrlService {
+  private readonly router = inject(Router);
+
+  /**
+   * Store the URL to return to after login.
+   * Invalid or external URLs are ignored.
+   */
+  save(url: string): void {
+    const returnUrl = sanitizeReturnUrl(url);
+    if (returnUrl) {
+      sessionStorage.setItem(RETURN_URL_KEY, returnUrl);
+    } else {
+      this.clear();
+    }
+  }
+
+  /**
+   * Read and remove the stored return URL
+   *
+   * @returns The validated URL, or null when nothing valid was stored
+   */
+  consume(): string | null {
+    const stored = sessionStorage.getItem(RETURN_URL_KEY);
+    this.clear();
+    return sanitizeReturnUrl(stored);
+  }
+
+  /**
+   * Navigate to the stored return URL, or to the fallback when there is none
+   */
+  restore(fallback = '/'): Promise<boolean> {
+    return this.router.navigateByUrl(this.consume() ?? fallback, { replaceUrl: true });
+  }
+
+  /**
+   * Remove any stored return URL
+   */
+  clear(): void {
+    sessionStorage.removeItem(RETURN_URL_KEY);
+  }
+}
+
+/**
+ * Validate a return URL and normalize it to path + query + fragment.
+ * Rejects protocol-relative, absolute and cross-origin URLs.
+ */
+export function sanitizeReturnUrl(url: string | null | undefined): string | null {
+  if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url, window.location.origin);
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== window.location.origin) {
+    return null;
+  }
+
+  if (EXCLUDED_PATHS.some((path) => parsed.pathname === path || parsed.pathname.startsWith(`${path}/`))) {
+    return null;
+  }
+
+  return `${parsed.pathname}${parsed.search}${parsed.hash}`;
+}
@@ -0,0 +1,39 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from './auth.service';
+import { AuthRequirement } from './auth.types';
+
+/**
+ * Role/scope guard for protected routes
+ *
+ * Reads the required roles and/or scopes from the route `data`
+ * and redirects to the unauthorized page when the user's ID token claims don't satisfy them.
+ * Use together with authGuard, which handles unauthenticated users:
+ *
+ * ```ts
+ * {
+ *   path: 'admin',
+ *   canActivate: [authGuard, roleGuard],
+ *   data: { roles: [AppRoles.Admin] } satisfies AuthRequirement,
+ * }
+ * ```
+ */
+export const roleGuard: CanActivateFn = async (route) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  await authService.whenInitialized();
+
+  // Unauthenticated users are handled by authGuard
+  if (!authService.isAuthenticated()) {
+    return false;
+  }
+
+  const requirement: AuthRequirement = {
+    roles: route.data['roles'],
+    scopes: route.data['scopes'],
+    match: route.data['match'],
+  };
+
+  return authService.hasPermission(requirement) ? true : router.createUrlTree(['/unauthorized']);
+};
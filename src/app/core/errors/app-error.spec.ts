@@ -0,0 +1,91 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { AppError, ProblemDetailsError, ResultError, ValidationError, toAppError } from './app-error';
+
+describe('toAppError', () => {
+  it('should return AppErrors unchanged', () => {
+    const error = new AppError('Already normalized');
+    expect(toAppError(error)).toBe(error);
+  });
+
+  it('should map ProblemDetails bodies', () => {
+    const error = toAppError({ title: 'Not Found', detail: 'Audit 12 was not found', status: 404, traceId: 'abc' });
+
+    expect(error).toBeInstanceOf(ProblemDetailsError);
+    expect(error.message).toBe('Audit 12 was not found');
+    expect(error.statusCode).toBe(404);
+    expect((error as ProblemDetailsError).extensions).toEqual({ traceId: 'abc' });
+  });
+
+  it('should prefer the separately known status code', () => {
+    const error = toAppError({ title: 'Conflict' }, 409);
+
+    expect(error).toBeInstanceOf(ProblemDetailsError);
+    expect(error.message).toBe('Conflict');
+    expect(error.statusCode).toBe(409);
+  });
+
+  it('should map validation ProblemDetails with their field messages', () => {
+    const error = toAppError({
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      errors: { SupplierNumber: ['Supplier number is required'], Name: ['Name is too long'] },
+    });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors['SupplierNumber']).toEqual(['Supplier number is required']);
+    expect(error.messages).toEqual(['Supplier number is required', 'Name is too long']);
+  });
+
+  it('should map failed Result envelopes', () => {
+    const error = toAppError({ isSuccess: false, errors: ['Personnel not found'] }, 404);
+
+    expect(error).toBeInstanceOf(ResultError);
+    expect(error.message).toBe('Personnel not found');
+    expect(error.messages).toEqual(['Personnel not found']);
+  });
+
+  it('should map fetch network failures to client errors', () => {
+    const error = toAppError(new TypeError('Failed to fetch'));
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.type).toBe('client');
+    expect(error.message).toBe('Failed to fetch');
+    expect(error.statusCode).toBe(0);
+  });
+
+  it('should map HttpClient network failures to client errors', () => {
+    const error = toAppError(new HttpErrorResponse({ status: 0, statusText: 'Unknown Error' }));
+
+    expect(error.type).toBe('client');
+    expect(error.statusCode).toBe(0);
+  });
+
+  it('should unwrap HttpClient error bodies', () => {
+    const error = toAppError(
+      new HttpErrorResponse({ status: 403, error: { title: 'Forbidden', detail: 'Admins only' } })
+    );
+
+    expect(error).toBeInstanceOf(ProblemDetailsError);
+    expect(error.message).toBe('Admins only');
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('should use short plain-text bodies as the message', () => {
+    expect(toAppError('Supplier is locked', 400).message).toBe('Supplier is locked');
+  });
+
+  it('should fall back to the status message for HTML bodies', () => {
+    expect(toAppError('<html><body>Bad Gateway</body></html>', 502).message).toBe(
+      'Bad Gateway: The server is temporarily unavailable'
+    );
+  });
+
+  it('should fall back to a generic message for unknown values', () => {
+    for (const value of [undefined, null, 42, ['unexpected']]) {
+      const error = toAppError(value);
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.message).toBe('An unexpected error occurred');
+      expect(error.details).toBe(value);
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import type { ProblemDetails, Result } from '@/core/api/generated';
+
+/**
+ * Application error hierarchy
+ *
+ * Every failure surfaced to the UI is normalized into one of these classes:
+ * - AppError: base class (network/client failures and plain HTTP errors)
+ * - ProblemDetailsError: RFC 7807 ProblemDetails responses
+ * - ValidationError: ASP.NET validation ProblemDetails with a per-property `errors` dictionary
+ * - ResultError: `Result` envelopes with an `errors` array (personnel endpoints)
+ */
+
+export type AppErrorType = 'client' | 'server';
+
+/**
+ * Base application error
+ */
+export class AppError extends Error {
+  readonly type: AppErrorType;
+  readonly statusCode: number;
+  readonly details?: unknown;
+
+  constructor(message: string, options: { type?: AppErrorType; statusCode?: number; details?: unknown } = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.type = options.type ?? 'server';
+    this.statusCode = options.statusCode ?? 0;
+    this.details = options.details;
+  }
+
+  /**
+   * Every message worth showing to the user (subclasses add field/result errors)
+   */
+  get messages(): string[] {
+    return [this.message];
+  }
+}
+
+/**
+ * RFC 7807 ProblemDetails error
+ * Keeps the standard fields plus any extension members
+ */
+export class ProblemDetailsError extends AppError {
+  readonly problemType?: string;
+  readonly title?: string;
+  readonly detail?: string;
+  readonly instance?: string;
+  readonly extensions: Record<string, unknown>;
+
+  constructor(problem: ProblemDetails, statusCode = problem.status ?? 0) {
+    super(problem.detail || problem.title || getStatusMessage(statusCode), { statusCode, details: problem });
+    this.name = 'ProblemDetailsError';
+    this.problemType = problem.type ?? undefined;
+    this.title = problem.title ?? undefined;
+    this.detail = problem.detail ?? undefined;
+    this.instance = problem.instance ?? undefined;
+
+    const { type: _type, title: _title, status: _status, detail: _detail, instance: _instance, ...extensions } = problem;
+    this.extensions = extensions;
+  }
+}
+
+/**
+ * Validation ProblemDetails error (400/422)
+ * `errors` is keyed by property path, e.g. `SupplierNumber` or `Contacts[0].Email`
+ */
+export class ValidationError extends ProblemDetailsError {
+  readonly errors: Record<string, string[]>;
+
+  constructor(problem: ProblemDetails & { errors: Record<string, string[]> }, statusCode = problem.status ?? 400) {
+    super(problem, statusCode);
+    this.name = 'ValidationError';
+    this.errors = problem.errors;
+  }
+
+  override get messages(): string[] {
+    const fieldMessages = Object.values(this.errors).flat();
+    return fieldMessages.length > 0 ? fieldMessages : [this.message];
+  }
+}
+
+/**
+ * Failed `Result` envelope
+ */
+export class ResultError extends AppError {
+  readonly errors: string[];
+
+  constructor(result: Result, statusCode = 0) {
+    super(result.message || result.errors?.[0] || getStatusMessage(statusCode), { statusCode, details: result });
+    this.name = 'ResultError';
+    this.errors = result.errors ?? [];
+  }
+
+  override get messages(): string[] {
+    return this.errors.length > 0 ? this.errors : [this.message];
+  }
+}
+
+/**
+ * Normalize anything thrown by the API client, HttpClient or application code into an AppError
+ *
+ * @param error - The thrown value (response body, HttpErrorResponse, Error, string...)
+ * @param statusCode - HTTP status, when known separately from the body
+ */
+export function toAppError(error: unknown, statusCode?: number): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    // Client-side or network error
+    if (error.error instanceof ErrorEvent || error.status === 0) {
+      return new AppError(error.error?.message || 'A network error occurred', {
+        type: 'client',
+        statusCode: 0,
+        details: error.error,
+      });
+    }
+    return toAppError(error.error ?? error.message, error.status);
+  }
+
+  if (isValidationProblem(error)) {
+    return new ValidationError(error, statusCode ?? error.status ?? 400);
+  }
+
+  if (isProblemDetails(error)) {
+    return new ProblemDetailsError(error, statusCode ?? error.status ?? 0);
+  }
+
+  if (isFailedResult(error)) {
+    return new ResultError(error, statusCode);
+  }
+
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the request never reached the server
+    return new AppError(error.message || 'A network error occurred', { type: 'client', details: error });
+  }
+
+  if (error instanceof Error) {
+    return new AppError(error.message, { type: 'client', details: error });
+  }
+
+  // Plain-text bodies (e.g. `BadRequest("...")`), but not HTML error pages
+  if (typeof error === 'string' && error.trim() && error.length < 500 && !error.trimStart().startsWith('<')) {
+    return new AppError(error.trim(), { statusCode, details: error });
+  }
+
+  return new AppError(getStatusMessage(statusCode), { statusCode, details: error });
+}
+
+/**
+ * Get a user-facing message for an HTTP status code
+ */
+export function getStatusMessage(statusCode: number | undefined): string {
+  const statusMessages: Record<number, string> = {
+    400: 'Bad Request: The request was invalid',
+    401: 'Unauthorized: Please sign in',
+    403: "Forbidden: You don't have permission to access this resource",
+    404: 'Not Found: The requested resource was not found',
+    409: 'Conflict: The request conflicts with existing data',
+    422: 'Validation Error: Please check your input',
+    429: 'Too Many Requests: Please try again later',
+    500: 'Internal Server Error: Something went wrong',
+    502: 'Bad Gateway: The server is temporarily unavailable',
+    503: 'Service Unavailable: The server is temporarily unavailable',
+    504: 'Gateway Timeout: The request timed out',
+  };
+
+  return (statusCode && statusMessages[statusCode]) || 'An unexpected error occurred';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isProblemDetails(value: unknown): value is ProblemDetails {
+  return isRecord(value) && ('title' in value || 'detail' in value || 'type' in value) && !('isSuccess' in value);
+}
+
+function isValidationProblem(value: unknown): value is ProblemDetails & { errors: Record<string, string[]> } {
+  return isProblemDetails(value) && isRecord(value['errors']);
+}
+
+function isFailedResult(value: unknown): value is Result {
+  return isRecord(value) && (Array.isArray(value['errors']) || value['isSuccess'] === false);
+}
@@ -1,6 +1,8 @@
 import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { catchError, throwError } from 'rxjs';
+import { catchError, from, switchMap, throwError } from 'rxjs';
+import { AuthService } from '../auth/auth.service';
+import { toAppError } from '../errors/app-error';
 
 /**
  * HTTP Interceptor for API requests
@@ -10,11 +12,15 @@ import { catchError, throwError } from 'rxjs';
  * Authorization headers for protected resources (see protectedResourceMap).
  *
  * This interceptor handles:
+ * - Holding requests until authentication has initialized (so tokens are available)
  * - Content-Type headers for JSON requests
  * - Global error handling
- * - Error response mapping to standardized AppError format
+ * - Error response mapping to the AppError hierarchy (see core/errors/app-error.ts)
+ *
+ * Errors are not toasted here: queries and mutations surface them via the QueryClient error handlers.
  */
 export const apiInterceptor: HttpInterceptorFn = (req, next) => {
+  const authService = inject(AuthService);
   let clonedRequest = req;
 
   // Only add Content-Type for JSON requests (not for FormData/file uploads)
@@ -26,10 +32,12 @@ export const apiInterceptor: HttpInterceptorFn = (req, next) => {
     });
   }
 
-  return next(clonedRequest).pipe(
+  // Wait for MSAL initialization, redirect handling and SSO silent before sending
+  return from(authService.whenInitialized()).pipe(
+    switchMap(() => next(clonedRequest)),
     catchError((error: HttpErrorResponse) => {
       // Map HTTP errors to application errors
-      const appError = mapHttpError(error);
+      const appError = toAppError(error);
 
       // Log error in development (skip silent auth errors)
       if (!error.url?.includes('silent')) {
@@ -37,7 +45,7 @@ export const apiInterceptor: HttpInterceptorFn = (req, next) => {
           url: error.url,
           status: error.status,
           message: appError.message,
-          details: appError.details,
+          details: appError.messages,
         });
       }
 
@@ -69,65 +77,3 @@ function shouldAddJsonContentType(req: HttpRequest<any>): boolean {
   // Add for POST, PUT, PATCH with JSON body
   return true;
 }
-
-/**
- * Maps HTTP errors to application-friendly error objects
- */
-function mapHttpError(error: HttpErrorResponse): AppError {
-  // Client-side or network error
-  if (error.error instanceof ErrorEvent) {
-    return {
-      type: 'client',
-      message: error.error.message || 'A network error occurred',
-      statusCode: 0,
-    };
-  }
-
-  // Server-side error with ProblemDetails format (RFC 7807)
-  if (error.error && typeof error.error === 'object' && 'title' in error.error) {
-    return {
-      type: 'server',
-      message: error.error.title || error.error.detail || 'An error occurred',
-      statusCode: error.status,
-      details: error.error,
-    };
-  }
-
-  // Standard HTTP errors
-  const statusMessages: Record<number, string> = {
-    400: 'Bad Request: The request was invalid',
-    401: 'Unauthorized: Please sign in',
-    403: 'Forbidden: You don\'t have permission to access this resource',
-    404: 'Not Found: The requested resource was not found',
-    409: 'Conflict: The request conflicts with existing data',
-    422: 'Validation Error: Please check your input',
-    429: 'Too Many Requests: Please try again later',
-    500: 'Internal Server Error: Something went wrong',
-    502: 'Bad Gateway: The server is temporarily unavailable',
-    503: 'Service Unavailable: The server is temporarily unavailable',
-    504: 'Gateway Timeout: The request timed out',
-  };
-
-  const message = statusMessages[error.status]
-    || error.error?.message
-    || error.message
-    || 'An unexpected error occurred';
-
-  return {
-    type: 'server',
-    message,
-    statusCode: error.status,
-    details: error.error,
-  };
-}
-
-/**
- * Application error interface
- * Standardized error format for the entire application
- */
-export interface AppError {
-  type: 'client' | 'server';
-  message: string;
-  statusCode: number;
-  details?: unknown;
-}
@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+import { AccountInfo, AuthenticationResult } from '@azure/msal-browser';
+import { AuthService } from '../auth/auth.service';
+import { AppRoles } from '../auth/auth.types';
+import { MOCK_USER } from './mock-data';
+
+// localStorage keys, so e2e tests can pick roles or start signed out before the app boots
+export const MOCK_ROLES_KEY = 'mockAuth.roles';
+export const MOCK_SIGNED_OUT_KEY = 'mockAuth.signedOut';
+
+const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+/**
+ * Mock Auth Service
+ *
+ * Drop-in replacement for AuthService used with the mock API backend:
+ * - Signs in a fake user immediately, without MSAL or network access
+ * - Roles default to Admin + Auditor; override with a comma-separated list in `mockAuth.roles`
+ * - Login/logout only flip the local state
+ */
+@Injectable()
+export class MockAuthService extends AuthService {
+  protected override async initializeAuthState(): Promise<AuthenticationResult | null> {
+    if (localStorage.getItem(MOCK_SIGNED_OUT_KEY) !== 'true') {
+      this.signIn();
+    }
+    this.isInitialized.set(true);
+    return null;
+  }
+
+  override async loginPopup(): Promise<void> {
+    this.signIn();
+  }
+
+  override loginRedirect(): void {
+    this.signIn();
+  }
+
+  override logoutPopup(): void {
+    this.signOut();
+  }
+
+  override logoutRedirect(): void {
+    this.signOut();
+  }
+
+  override async getAccessToken(): Promise<string | null> {
+    return this.isAuthenticated() ? MOCK_ACCESS_TOKEN : null;
+  }
+
+  override getActiveAccount(): AccountInfo | null {
+    const user = this.userInfo();
+    if (!user) {
+      return null;
+    }
+
+    return {
+      homeAccountId: 'mock-home-account',
+      localAccountId: 'mock-local-account',
+      environment: 'mock',
+      tenantId: 'mock-tenant',
+      username: user.username,
+      name: user.name,
+      idTokenClaims: user,
+    };
+  }
+
+  override async attemptSsoSilent(): Promise<boolean> {
+    return this.isAuthenticated();
+  }
+
+  private signIn(): void {
+    localStorage.removeItem(MOCK_SIGNED_OUT_KEY);
+
+    const storedRoles = localStorage.getItem(MOCK_ROLES_KEY);
+    const roles =
+      storedRoles !== null
+        ? storedRoles.split(',').map((role) => role.trim()).filter(Boolean)
+        : [AppRoles.Admin, AppRoles.Auditor];
+
+    this.userInfo.set({
+      name: MOCK_USER.name,
+      username: MOCK_USER.email,
+      email: MOCK_USER.email,
+      preferred_username: MOCK_USER.email,
+      roles,
+      scp: 'access_as_user',
+    });
+    this.isAuthenticated.set(true);
+  }
+
+  private signOut(): void {
+    localStorage.setItem(MOCK_SIGNED_OUT_KEY, 'true');
+    this.userInfo.set(null);
+    this.isAuthenticated.set(false);
+  }
+}
@@ -0,0 +1,7 @@
+import { EnvironmentProviders, Provider } from '@angular/core';
+import { provideMockBackend } from './mock-backend.providers';
+
+/**
+ * Mock backend providers of the `mock` configuration (replaces mock-backend.config.ts)
+ */
+export const MOCK_BACKEND_PROVIDERS: Array<Provider | EnvironmentProviders> = provideMockBackend();
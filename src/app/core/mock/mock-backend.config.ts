@@ -0,0 +1,10 @@
+import { EnvironmentProviders, Provider } from '@angular/core';
+
+/**
+ * Mock backend providers of the build
+ *
+ * Empty, so the mock API and its seed data stay out of regular builds.
+ * The `mock` configuration (`npm run start:mock`) replaces this file with
+ * mock-backend.config.mock.ts through `fileReplacements` (see angular.json).
+ */
+export const MOCK_BACKEND_PROVIDERS: Array<Provider | EnvironmentProviders> = [];
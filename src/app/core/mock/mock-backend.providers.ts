@@ -0,0 +1,23 @@
+import { EnvironmentProviders, Provider, provideAppInitializer } from '@angular/core';
+import { client } from '../api/generated/client.gen';
+import { AuthService } from '../auth/auth.service';
+import { createMockDatabase } from './mock-data';
+import { MockFetchOptions, createMockFetch } from './mock-fetch';
+import { MockAuthService } from './mock-auth.service';
+
+/**
+ * Provide the mock API backend
+ *
+ * - Routes every generated SDK call to seeded in-memory data (no network)
+ * - Replaces AuthService with a signed-in fake user (no MSAL)
+ *
+ * Data lives for the lifetime of the page: a reload restores the seed.
+ */
+export function provideMockBackend(options: MockFetchOptions = {}): Array<Provider | EnvironmentProviders> {
+  return [
+    { provide: AuthService, useClass: MockAuthService },
+    provideAppInitializer(() => {
+      client.setConfig({ fetch: createMockFetch(createMockDatabase(), options) });
+    }),
+  ];
+}
@@ -0,0 +1,517 @@
+import { z } from 'zod';
+import {
+  zAuditDetailsResponse,
+  zAuditResponse,
+  zBookmarkTemplateResponse,
+  zDocumentBookmarkResponse,
+  zFileMetadataResponse,
+  zMergeTemplateResponse,
+  zPersonnelResponse,
+  zPhaseAssignmentResponse,
+  zPhaseResponse,
+  zSupplierDetailsResponse,
+} from '../api/generated/zod.gen';
+
+/**
+ * Seeded mock data
+ *
+ * Deterministic (seeded PRNG) in-memory tables for the mock API backend.
+ * Records use the wire format described by zod.gen.ts (ISO date strings) and
+ * every seeded record is parsed with its schema, so responses always pass the
+ * SDK's response validators.
+ */
+
+export type MockAudit = z.infer<typeof zAuditResponse>;
+export type MockAuditDetails = z.infer<typeof zAuditDetailsResponse>;
+export type MockSupplier = z.infer<typeof zSupplierDetailsResponse>;
+export type MockPersonnel = z.infer<typeof zPersonnelResponse>;
+export type MockPhase = z.infer<typeof zPhaseResponse>;
+export type MockPhaseAssignment = z.infer<typeof zPhaseAssignmentResponse>;
+export type MockFile = z.infer<typeof zFileMetadataResponse>;
+export type MockBookmark = z.infer<typeof zDocumentBookmarkResponse>;
+export type MockBookmarkTemplate = z.infer<typeof zBookmarkTemplateResponse>;
+export type MockMergeTemplate = z.infer<typeof zMergeTemplateResponse>;
+
+export interface MockDatabase {
+  suppliers: MockSupplier[];
+  personnel: MockPersonnel[];
+  audits: MockAudit[];
+  /** NUPIC audits that have not been set up in the app yet */
+  nupicAudits: MockAudit[];
+  referenceAudits: MockAuditDetails[];
+  phases: MockPhase[];
+  phaseAssignments: MockPhaseAssignment[];
+  files: MockFile[];
+  bookmarks: MockBookmark[];
+  bookmarkTemplates: Map<number, MockBookmarkTemplate>;
+  mergeTemplates: MockMergeTemplate[];
+
+  /** Last id used per table, for records created at runtime */
+  sequences: Record<'audits' | 'phaseAssignments' | 'files' | 'bookmarks', number>;
+}
+
+export const MOCK_USER = {
+  name: 'Mock User',
+  email: 'mock.user@example.com',
+};
+
+export const AUDIT_TYPES: Record<number, string> = {
+  1: 'Supplier Audit',
+  2: 'Commercial Grade Survey',
+  3: 'Joint Utility Audit',
+};
+
+const UTILITIES: Array<[code: string, name: string]> = [
+  ['DUK', 'Duke Energy'],
+  ['EXC', 'Exelon Generation'],
+  ['SOC', 'Southern Nuclear'],
+  ['TVA', 'Tennessee Valley Authority'],
+  ['NEE', 'NextEra Energy'],
+  ['DOM', 'Dominion Energy'],
+  ['ENT', 'Entergy'],
+  ['XEL', 'Xcel Energy'],
+];
+
+const CITIES: Array<[city: string, state: string]> = [
+  ['Charlotte', 'NC'],
+  ['Chattanooga', 'TN'],
+  ['Pittsburgh', 'PA'],
+  ['Lynchburg', 'VA'],
+  ['Houston', 'TX'],
+  ['Cleveland', 'OH'],
+  ['Jacksonville', 'FL'],
+  ['Minneapolis', 'MN'],
+  ['Phoenix', 'AZ'],
+  ['Birmingham', 'AL'],
+];
+
+const SUPPLIER_PREFIXES = ['Atlas', 'Summit', 'Keystone', 'Pioneer', 'Liberty', 'Precision', 'Allied', 'Sterling', 'Apex', 'Frontier'];
+const SUPPLIER_SUFFIXES = ['Valve Co.', 'Instruments', 'Forge & Machine', 'Controls', 'Electric', 'Pumps Inc.', 'Fabrication'];
+const FIRST_NAMES = ['James', 'Maria', 'Robert', 'Linda', 'Michael', 'Patricia', 'David', 'Jennifer', 'William', 'Elizabeth', 'Ahmed', 'Mei', 'Carlos', 'Priya'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Martinez', 'Nguyen', 'Patel', 'Kim'];
+const ROLES = ['Auditor', 'Lead Auditor', 'QA Engineer', 'QA Manager', 'Procurement Engineer'];
+
+const PHASES: Array<Omit<MockPhase, 'isActive'>> = [
+  { id: 1, code: 'PLAN', name: 'Planning', category: 'Pre-Audit', description: 'Scope, team and schedule' },
+  { id: 2, code: 'NOTIFY', name: 'Supplier Notification', category: 'Pre-Audit', description: 'Notify the supplier and request documents' },
+  { id: 3, code: 'ENTRANCE', name: 'Entrance Meeting', category: 'Audit', description: 'Kick-off with the supplier' },
+  { id: 4, code: 'FIELD', name: 'Fieldwork', category: 'Audit', description: 'Checklist execution and evidence collection' },
+  { id: 5, code: 'EXIT', name: 'Exit Meeting', category: 'Audit', description: 'Preliminary findings' },
+  { id: 6, code: 'REPORT', name: 'Report', category: 'Post-Audit', description: 'Draft, review and issue the report' },
+  { id: 7, code: 'CLOSE', name: 'Closure', category: 'Post-Audit', description: 'Finding responses and close-out' },
+];
+
+// Commercial grade surveys have no entrance/exit meetings
+const PHASES_BY_AUDIT_TYPE: Record<number, string[]> = {
+  1: ['PLAN', 'NOTIFY', 'ENTRANCE', 'FIELD', 'EXIT', 'REPORT', 'CLOSE'],
+  2: ['PLAN', 'NOTIFY', 'FIELD', 'REPORT', 'CLOSE'],
+  3: ['PLAN', 'NOTIFY', 'ENTRANCE', 'FIELD', 'EXIT', 'REPORT', 'CLOSE'],
+};
+
+const DOCUMENTS = ['Audit Plan', 'Notification Letter', 'Checklist', 'Attendance Sheet', 'Audit Report', 'Corrective Action Response'];
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number): number => min + Math.floor(next() * (max - min + 1)),
+    bool: (probability = 0.5): boolean => next() < probability,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/**
+ * ISO date string offset from the reference date by a number of days
+ */
+function isoDate(reference: Date, days: number): string {
+  return new Date(reference.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function emailFor(name: string, domain: string): string {
+  return `${name.toLowerCase().replace(/[^a-z0-9]+/g, '.')}@${domain}`;
+}
+
+/**
+ * Build the seeded mock database
+ *
+ * @param seed - PRNG seed; the same seed always produces the same data
+ * @param reference - Date the seeded audit schedule is centered on
+ */
+export function createMockDatabase(seed = 20240601, reference = new Date(Date.UTC(2025, 0, 15))): MockDatabase {
+  const random = createRandom(seed);
+
+  const suppliers = seedSuppliers(random);
+  const personnel = seedPersonnel(random);
+  const audits = seedAudits(random, reference, suppliers, personnel);
+  const phaseAssignments = seedPhaseAssignments(random, audits);
+  const files = seedFiles(random, audits, phaseAssignments);
+  const bookmarkTemplates = seedBookmarkTemplates();
+  const nupicAudits = seedNupicAudits(random, reference, suppliers, personnel);
+
+  for (const supplier of suppliers) {
+    supplier.auditCount = audits.filter((audit) => audit.supplierNumber === supplier.supplierNumber).length;
+  }
+
+  return {
+    suppliers,
+    personnel,
+    audits,
+    nupicAudits,
+    referenceAudits: getNupicAudits({ audits, nupicAudits }).map((audit) =>
+      toReferenceAudit(audit, suppliers)
+    ),
+    phases: PHASES.map((phase) => zPhaseResponse.parse({ ...phase, isActive: true })),
+    phaseAssignments,
+    files,
+    bookmarks: [],
+    bookmarkTemplates,
+    mergeTemplates: seedMergeTemplates(),
+    sequences: {
+      audits: audits.length,
+      phaseAssignments: phaseAssignments.length,
+      files: files.length,
+      bookmarks: 0,
+    },
+  };
+}
+
+/**
+ * Phase catalog entries used by an audit type
+ */
+export function getPhasesForAuditType(auditTypeId: number | undefined): MockPhase[] {
+  const codes = PHASES_BY_AUDIT_TYPE[auditTypeId ?? 1] ?? PHASES_BY_AUDIT_TYPE[1];
+  return PHASES.filter((phase) => codes.includes(phase.code!)).map((phase) => ({ ...phase, isActive: true }));
+}
+
+/**
+ * Audits known to NUPIC: the app's audits followed by the NUPIC audits not set up in the app yet
+ */
+export function getNupicAudits(db: Pick<MockDatabase, 'audits' | 'nupicAudits'>): MockAudit[] {
+  const created = new Set(db.audits.map((audit) => audit.auditNumber));
+  return [...db.audits, ...db.nupicAudits.filter((audit) => !created.has(audit.auditNumber))];
+}
+
+/**
+ * NUPIC reference view of an audit
+ */
+export function toReferenceAudit(audit: MockAudit, suppliers: MockSupplier[]): MockAuditDetails {
+  const supplier = suppliers.find((s) => s.supplierNumber === audit.supplierNumber);
+  const utility = UTILITIES.find(([code]) => code === audit.leadUtilityCode);
+  const auditDate = audit.startDate ? new Date(audit.startDate) : null;
+
+  return zAuditDetailsResponse.parse({
+    auditNumber: audit.auditNumber,
+    supplierNumber: audit.supplierNumber,
+    supplierName: supplier?.supplierName ?? null,
+    leadUtilityCode: audit.leadUtilityCode,
+    leadUtilityName: utility?.[1] ?? null,
+    auditDate: audit.startDate ?? null,
+    entranceDate: audit.startDate ?? null,
+    closeDate: audit.auditApproved ? (audit.endDate ?? null) : null,
+    personPerformingAudit: audit.leadAuditorName ?? null,
+    scheduledMonth: auditDate ? String(auditDate.getUTCMonth() + 1).padStart(2, '0') : null,
+    scheduledYear: auditDate ? String(auditDate.getUTCFullYear()) : null,
+    isClosed: !!audit.auditApproved,
+    isScheduled: !!audit.startDate,
+  });
+}
+
+function seedSuppliers(random: Random): MockSupplier[] {
+  return Array.from({ length: 36 }, (_, i) => {
+    const [city, state] = random.pick(CITIES);
+    const name = `${SUPPLIER_PREFIXES[i % SUPPLIER_PREFIXES.length]} ${random.pick(SUPPLIER_SUFFIXES)}`;
+    const contact = random.bool(0.85) ? `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}` : null;
+    const contactEmail = contact && random.bool(0.9) ? emailFor(contact, 'supplier.example.com') : null;
+
+    return zSupplierDetailsResponse.parse({
+      supplierNumber: String(1001 + i),
+      supplierName: name,
+      city,
+      state,
+      contact,
+      contactEmail,
+      isActive: random.bool(0.9),
+      nupAudit: null,
+      auditCount: 0,
+      hasContact: !!contact,
+      hasEmail: !!contactEmail,
+      location: `${city}, ${state}`,
+    });
+  });
+}
+
+function seedPersonnel(random: Random): MockPersonnel[] {
+  return Array.from({ length: 80 }, (_, i) => {
+    const [memberCode, memberName] = UTILITIES[i % UTILITIES.length];
+    const name = `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+    const role = random.pick(ROLES);
+
+    return zPersonnelResponse.parse({
+      personnelNumber: i + 1,
+      personnelId: `P${String(i + 1).padStart(4, '0')}`,
+      memberCode,
+      memberName,
+      name,
+      email: emailFor(`${name} ${i + 1}`, `${memberCode.toLowerCase()}.example.com`),
+      role,
+      phone: `555-${String(random.int(100, 999))}-${String(random.int(1000, 9999))}`,
+      utilityCode: memberCode,
+      isActive: random.bool(0.9),
+      isAuditor: role.includes('Auditor'),
+    });
+  });
+}
+
+function seedAudits(random: Random, reference: Date, suppliers: MockSupplier[], personnel: MockPersonnel[]): MockAudit[] {
+  const auditors = personnel.filter((p) => p.isAuditor);
+
+  return Array.from({ length: 120 }, (_, i) => {
+    const supplier = random.pick(suppliers);
+    const auditor = random.pick(auditors);
+    const auditTypeId = random.int(1, 3);
+    const startOffset = random.int(-540, 180);
+    const approved = startOffset < -60 && random.bool(0.7);
+    const createdDate = isoDate(reference, startOffset - random.int(30, 90));
+
+    return zAuditResponse.parse({
+      id: i + 1,
+      auditNumber: String(24001 + i),
+      supplierNumber: supplier.supplierNumber,
+      leadUtilityCode: auditor.memberCode,
+      auditTypeId,
+      auditTypeName: AUDIT_TYPES[auditTypeId],
+      fkPerNumb: auditor.personnelNumber,
+      contactPersonEmail: supplier.contactEmail ?? emailFor('quality', 'supplier.example.com'),
+      alternateContact: auditor.email,
+      startDate: isoDate(reference, startOffset),
+      endDate: isoDate(reference, startOffset + random.int(2, 5)),
+      auditApproved: approved,
+      approvedBy: approved ? MOCK_USER.name : '',
+      dateNotified: isoDate(reference, startOffset - 30),
+      createdDate,
+      createdBy: MOCK_USER.email,
+      updatedDate: createdDate,
+      updatedBy: MOCK_USER.email,
+      leadAuditorName: auditor.name,
+    });
+  });
+}
+
+/**
+ * Upcoming NUPIC audits, numbered after the seeded app audits
+ */
+function seedNupicAudits(
+  random: Random,
+  reference: Date,
+  suppliers: MockSupplier[],
+  personnel: MockPersonnel[]
+): MockAudit[] {
+  const auditors = personnel.filter((p) => p.isAuditor);
+
+  return Array.from({ length: 12 }, (_, i) => {
+    const supplier = random.pick(suppliers);
+    const auditor = random.pick(auditors);
+    const auditTypeId = random.int(1, 3);
+    const startOffset = random.int(30, 240);
+
+    return zAuditResponse.parse({
+      auditNumber: String(25001 + i),
+      supplierNumber: supplier.supplierNumber,
+      leadUtilityCode: auditor.memberCode,
+      auditTypeId,
+      auditTypeName: AUDIT_TYPES[auditTypeId],
+      fkPerNumb: auditor.personnelNumber,
+      startDate: isoDate(reference, startOffset),
+      endDate: isoDate(reference, startOffset + random.int(2, 5)),
+      auditApproved: false,
+      leadAuditorName: auditor.name,
+    });
+  });
+}
+
+function seedPhaseAssignments(random: Random, audits: MockAudit[]): MockPhaseAssignment[] {
+  const assignments: MockPhaseAssignment[] = [];
+
+  for (const audit of audits) {
+    const phases = getPhasesForAuditType(audit.auditTypeId);
+    const completedCount = audit.auditApproved ? phases.length : random.int(0, phases.length - 1);
+    const hasActive = completedCount < phases.length && random.bool(0.8);
+    let day = new Date(audit.createdDate!).getTime();
+
+    phases.forEach((phase, index) => {
+      const completed = index < completedCount;
+      const active = index === completedCount && hasActive;
+      const startedDate = completed || active ? new Date(day).toISOString() : null;
+      day += random.int(3, 21) * 24 * 60 * 60 * 1000;
+
+      assignments.push(
+        zPhaseAssignmentResponse.parse({
+          id: assignments.length + 1,
+          auditId: audit.id,
+          phaseId: phase.id,
+          phaseName: phase.name,
+          phaseCode: phase.code,
+          status: completed ? 'Completed' : active ? 'InProgress' : 'NotStarted',
+          isActive: active,
+          startedDate,
+          completedDate: completed ? new Date(day).toISOString() : null,
+          completedBy: completed ? audit.leadAuditorName : '',
+          createdDate: audit.createdDate,
+          createdBy: MOCK_USER.email,
+        })
+      );
+    });
+  }
+
+  return assignments;
+}
+
+function seedFiles(random: Random, audits: MockAudit[], assignments: MockPhaseAssignment[]): MockFile[] {
+  const files: MockFile[] = [];
+
+  for (const audit of audits) {
+    const started = assignments.filter((a) => a.auditId === audit.id && a.startedDate);
+
+    for (const phase of started) {
+      const count = random.int(0, 2);
+      for (let i = 0; i < count; i++) {
+        const reviewed = phase.status === 'Completed' && random.bool(0.7);
+        files.push(
+          zFileMetadataResponse.parse({
+            id: files.length + 1,
+            fileName: `${audit.auditNumber} ${random.pick(DOCUMENTS)}${i > 0 ? ` (${i + 1})` : ''}.pdf`,
+            blobUrl: `https://mock.blob.local/audits/${audit.id}/${files.length + 1}.pdf`,
+            guid: mockGuid(random),
+            fileStatusId: reviewed ? 2 : 1,
+            fileStatusName: reviewed ? 'Reviewed' : 'Uploaded',
+            reviewedBy: reviewed ? audit.leadAuditorName : '',
+            reviewedDate: reviewed ? phase.completedDate : null,
+            notifiedDate: null,
+            notifiedEmail: '',
+            sortOrder: files.length + 1,
+            auditDocumentId: audit.id,
+            auditNumber: audit.auditNumber,
+            phaseAssignmentId: phase.id,
+            phaseName: phase.phaseName,
+            createdDate: phase.startedDate,
+            createdBy: MOCK_USER.email,
+            updatedDate: phase.startedDate,
+            updatedBy: MOCK_USER.email,
+            isMerged: false,
+            contentType: 'application/pdf',
+          })
+        );
+      }
+    }
+  }
+
+  return files;
+}
+
+function seedBookmarkTemplates(): Map<number, MockBookmarkTemplate> {
+  const items = [
+    { bookmarkKey: 'SupplierName', displayText: 'Supplier Name', dataType: 'string', isRequired: true },
+    { bookmarkKey: 'AuditDate', displayText: 'Audit Date', dataType: 'date', isRequired: true },
+    { bookmarkKey: 'LeadAuditor', displayText: 'Lead Auditor', dataType: 'string', isRequired: true },
+    { bookmarkKey: 'ContactEmail', displayText: 'Contact Email', dataType: 'email', isRequired: false },
+    { bookmarkKey: 'FindingCount', displayText: 'Number of Findings', dataType: 'int', isRequired: false },
+    { bookmarkKey: 'Satisfactory', displayText: 'Program Satisfactory', dataType: 'bool', isRequired: false },
+    { bookmarkKey: 'Summary', displayText: 'Summary', dataType: 'multiline', isRequired: false },
+  ];
+
+  return new Map(
+    Object.entries(AUDIT_TYPES).map(([id, name]) => {
+      const auditTypeId = Number(id);
+      const template = zBookmarkTemplateResponse.parse({
+        id: auditTypeId,
+        name: `${name} Bookmarks`,
+        description: `Report bookmarks for ${name.toLowerCase()}s`,
+        isActive: true,
+        items: items
+          // Surveys don't report a program rating
+          .filter((item) => auditTypeId !== 2 || item.bookmarkKey !== 'Satisfactory')
+          .map((item, index) => ({
+            ...item,
+            id: auditTypeId * 100 + index + 1,
+            bookmarkId: index + 1,
+            sortOrder: index + 1,
+            overrideDefaultValue: item.dataType === 'bool' ? 'true' : '',
+          })),
+      });
+      return [auditTypeId, template];
+    })
+  );
+}
+
+function seedMergeTemplates(): MockMergeTemplate[] {
+  return [
+    {
+      name: 'standard',
+      displayName: 'Standard Audit Package',
+      description: 'Cover page, table of contents and all selected documents',
+      requiredFields: ['customFilename', 'documentType'],
+      templateType: 'Package',
+      isDefault: true,
+    },
+    {
+      name: 'report',
+      displayName: 'Audit Report',
+      description: 'Report cover with supplier and auditor bookmarks',
+      requiredFields: ['customFilename', 'SupplierName', 'LeadAuditor'],
+      templateType: 'Report',
+      isDefault: false,
+    },
+  ].map((template) => zMergeTemplateResponse.parse(template));
+}
+
+function mockGuid(random: Random): string {
+  const hex = (length: number) => Array.from({ length }, () => random.int(0, 15).toString(16)).join('');
+  return `${hex(8)}-${hex(4)}-4${hex(3)}-a${hex(3)}-${hex(12)}`;
+}
+
+/**
+ * Build a minimal single-page PDF with a line of text
+ * Used as the content of every mock file, preview and merge result
+ */
+export function createMockPdf(title: string, lines: string[] = []): string {
+  const escape = (text: string) => text.replace(/[\\()]/g, (c) => `\\${c}`);
+  const text = [title, ...lines]
+    .map((line, i) => `BT /F1 ${i === 0 ? 18 : 11} Tf 72 ${720 - i * 24} Td (${escape(line)}) Tj ET`)
+    .join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${text.length} >>\nstream\n${text}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return pdf;
+}
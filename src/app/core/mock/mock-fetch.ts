@@ -0,0 +1,118 @@
+import { MockDatabase } from './mock-data';
+import { MOCK_ROUTES, MockRequest, MockResult, MockRoute } from './mock-routes';
+
+export interface MockFetchOptions {
+  /** Simulated network latency in ms (default: 150) */
+  latency?: number;
+}
+
+interface CompiledRoute extends MockRoute {
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Create a `fetch` implementation that answers API requests from the mock database
+ *
+ * Plugged into the generated client with `client.setConfig({ fetch })`, so every SDK
+ * function (and therefore every TanStack Query option/mutation) runs unchanged.
+ * Unknown routes answer 404 with a ProblemDetails body.
+ */
+export function createMockFetch(db: MockDatabase, options: MockFetchOptions = {}): typeof fetch {
+  const routes = MOCK_ROUTES.map(compileRoute);
+  const latency = options.latency ?? 150;
+
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    for (const route of routes) {
+      if (route.method !== request.method) continue;
+
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+
+      const mockRequest: MockRequest = {
+        method: request.method,
+        params: Object.fromEntries(route.paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])])),
+        query: url.searchParams,
+        body: await readBody(request),
+      };
+
+      try {
+        return toResponse(route.handler(db, mockRequest), request.method);
+      } catch (error) {
+        console.error(`[mock-api] ${request.method} ${url.pathname} failed`, error);
+        return toResponse(
+          { status: 500, body: { title: 'Mock handler failed', status: 500, detail: String(error) } },
+          request.method
+        );
+      }
+    }
+
+    console.warn(`[mock-api] No handler for ${request.method} ${url.pathname}`);
+    return toResponse(
+      { status: 404, body: { title: 'Not Found', status: 404, detail: `No mock handler for ${request.method} ${url.pathname}` } },
+      request.method
+    );
+  };
+}
+
+/**
+ * Turn an OpenAPI path (`/api/Audits/{id}`) into a case-insensitive matcher
+ */
+function compileRoute(route: MockRoute): CompiledRoute {
+  const paramNames: string[] = [];
+  const source = route.path
+    .split('/')
+    .map((segment) => {
+      const param = /^\{(.+)\}$/.exec(segment);
+      if (param) {
+        paramNames.push(param[1]);
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return { ...route, pattern: new RegExp(`^${source}/?$`, 'i'), paramNames };
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return undefined;
+  }
+
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (contentType.includes('multipart/form-data')) {
+    return request.formData();
+  }
+
+  const text = await request.text();
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toResponse(result: MockResult, method: string): Response {
+  const { status } = result;
+
+  if (method === 'HEAD' || status === 204 || result.body === undefined) {
+    return new Response(null, { status });
+  }
+
+  const contentType = result.contentType ?? (status >= 400 ? 'application/problem+json' : 'application/json');
+  const body = contentType.includes('json') ? JSON.stringify(result.body) : (result.body as BodyInit);
+
+  return new Response(body, { status, headers: { 'Content-Type': contentType } });
+}
@@ -0,0 +1,912 @@
+import type {
+  CreateAuditRequest,
+  CreateDocumentBookmarkRequest,
+  MergeAuditDocumentsRequest,
+  MergeFilesRequest,
+  ReviewFileRequest,
+  UpdateAuditRequest,
+  UpdateDocumentBookmarkRequest,
+  UpdateFileMetadataRequest,
+  UpdatePhaseAssignmentRequest,
+} from '../api/generated';
+import {
+  AUDIT_TYPES,
+  MOCK_USER,
+  MockAudit,
+  MockBookmark,
+  MockDatabase,
+  MockFile,
+  MockPersonnel,
+  MockPhaseAssignment,
+  createMockPdf,
+  getNupicAudits,
+  getPhasesForAuditType,
+  toReferenceAudit,
+} from './mock-data';
+
+/**
+ * Mock API routes
+ *
+ * One handler per operation in sdk.gen.ts, answering from (and mutating) the
+ * in-memory MockDatabase. Paths are the OpenAPI paths; static segments must be
+ * listed before parameterized ones that could also match them.
+ */
+
+export interface MockRequest {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+
+  /** Parsed JSON body, or FormData for multipart requests */
+  body: unknown;
+}
+
+export interface MockResult {
+  status: number;
+  body?: unknown;
+
+  /** Defaults to application/json (application/problem+json for 4xx/5xx) */
+  contentType?: string;
+}
+
+export interface MockRoute {
+  method: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  handler: (db: MockDatabase, request: MockRequest) => MockResult;
+}
+
+const ok = (body: unknown): MockResult => ({ status: 200, body });
+const created = (body: unknown): MockResult => ({ status: 201, body });
+const noContent = (): MockResult => ({ status: 204 });
+const pdf = (content: string): MockResult => ({ status: 200, body: content, contentType: 'application/pdf' });
+
+const problem = (status: number, title: string, detail?: string): MockResult => ({
+  status,
+  body: { type: `https://httpstatuses.io/${status}`, title, status, detail },
+});
+
+const notFound = (detail: string): MockResult => problem(404, 'Not Found', detail);
+
+const validationProblem = (errors: Record<string, string[]>): MockResult => ({
+  status: 400,
+  body: {
+    type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+    title: 'One or more validation errors occurred.',
+    status: 400,
+    errors,
+  },
+});
+
+/** Personnel endpoints wrap their payload in a `Result` envelope */
+const result = (data: unknown): MockResult => ok({ isSuccess: true, message: '', errors: [], data });
+
+const failedResult = (status: number, message: string): MockResult => ({
+  status,
+  body: { isSuccess: false, message, errors: [message], data: null },
+});
+
+const now = (): string => new Date().toISOString();
+
+function intQuery(query: URLSearchParams, ...names: string[]): number | undefined {
+  for (const name of names) {
+    const value = query.get(name);
+    if (value !== null && value !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+function boolQuery(query: URLSearchParams, name: string): boolean {
+  return query.get(name) === 'true';
+}
+
+function matches(term: string | null | undefined, ...values: Array<string | number | null | undefined>): boolean {
+  if (!term) return true;
+  const needle = term.toLowerCase();
+  return values.some((value) => value !== null && value !== undefined && String(value).toLowerCase().includes(needle));
+}
+
+/**
+ * Build a PaginatedResponseOf* page
+ */
+function paginate<T>(items: T[], pageNumber = 1, pageSize = items.length || 1) {
+  const size = Math.max(1, pageSize);
+  const totalPages = Math.max(1, Math.ceil(items.length / size));
+  const page = Math.min(Math.max(1, pageNumber), totalPages);
+
+  return {
+    items: items.slice((page - 1) * size, page * size),
+    totalCount: items.length,
+    pageNumber: page,
+    pageSize: size,
+    totalPages,
+    hasPreviousPage: page > 1,
+    hasNextPage: page < totalPages,
+  };
+}
+
+function findAudit(db: MockDatabase, id: string | number): MockAudit | undefined {
+  return db.audits.find((audit) => audit.id === Number(id));
+}
+
+function findFile(db: MockDatabase, auditId: string, fileId: string): MockFile | undefined {
+  return db.files.find((file) => file.auditDocumentId === Number(auditId) && file.id === Number(fileId));
+}
+
+function findAssignment(db: MockDatabase, auditId: string, assignmentId: string): MockPhaseAssignment | undefined {
+  return db.phaseAssignments.find((a) => a.auditId === Number(auditId) && a.id === Number(assignmentId));
+}
+
+function findBookmark(db: MockDatabase, auditId: string, bookmarkId: string): MockBookmark | undefined {
+  return db.bookmarks.find((b) => b.auditDocumentId === Number(auditId) && b.id === Number(bookmarkId));
+}
+
+function auditPhases(db: MockDatabase, auditId: number): MockPhaseAssignment[] {
+  return db.phaseAssignments.filter((a) => a.auditId === auditId);
+}
+
+function personnelByEmail(db: MockDatabase, email: string | null): MockPersonnel | undefined {
+  return db.personnel.find((p) => !!email && p.email?.toLowerCase() === email.toLowerCase());
+}
+
+function leadAuditorName(db: MockDatabase, personnelNumber: number | null | undefined): string {
+  return db.personnel.find((p) => p.personnelNumber === personnelNumber)?.name ?? '';
+}
+
+/**
+ * Keep the NUPIC reference view and supplier audit counts in step with the audits table
+ */
+function syncReferenceData(db: MockDatabase): void {
+  db.referenceAudits = getNupicAudits(db).map((audit) => toReferenceAudit(audit, db.suppliers));
+  for (const supplier of db.suppliers) {
+    supplier.auditCount = db.audits.filter((audit) => audit.supplierNumber === supplier.supplierNumber).length;
+  }
+}
+
+function createPhaseAssignments(db: MockDatabase, audit: MockAudit): void {
+  for (const phase of getPhasesForAuditType(audit.auditTypeId)) {
+    db.phaseAssignments.push({
+      id: ++db.sequences.phaseAssignments,
+      auditId: audit.id,
+      phaseId: phase.id,
+      phaseName: phase.name,
+      phaseCode: phase.code,
+      status: 'NotStarted',
+      isActive: false,
+      startedDate: null,
+      completedDate: null,
+      completedBy: '',
+      createdDate: now(),
+      createdBy: MOCK_USER.email,
+    });
+  }
+}
+
+function createFile(db: MockDatabase, audit: MockAudit, fileName: string, phase?: MockPhaseAssignment): MockFile {
+  const id = ++db.sequences.files;
+  const file: MockFile = {
+    id,
+    fileName,
+    blobUrl: `https://mock.blob.local/audits/${audit.id}/${id}.pdf`,
+    guid: crypto.randomUUID(),
+    fileStatusId: 1,
+    fileStatusName: 'Uploaded',
+    reviewedBy: '',
+    reviewedDate: null,
+    notifiedDate: null,
+    notifiedEmail: '',
+    sortOrder: id,
+    auditDocumentId: audit.id,
+    auditNumber: audit.auditNumber,
+    phaseAssignmentId: phase?.id,
+    phaseName: phase?.phaseName ?? '',
+    createdDate: now(),
+    createdBy: MOCK_USER.email,
+    updatedDate: now(),
+    updatedBy: MOCK_USER.email,
+    isMerged: false,
+    contentType: 'application/pdf',
+  };
+  db.files.push(file);
+  return file;
+}
+
+function upsertBookmark(db: MockDatabase, audit: MockAudit, request: CreateDocumentBookmarkRequest): MockBookmark {
+  const existing = db.bookmarks.find(
+    (b) =>
+      b.auditDocumentId === audit.id && b.fileMetadataId === request.fileMetadataId && b.bookmarkId === request.bookmarkId
+  );
+  if (existing) {
+    existing.value = request.value ?? '';
+    return existing;
+  }
+
+  const template = db.bookmarkTemplates.get(audit.auditTypeId ?? 1);
+  const item = template?.items?.find((i) => i.bookmarkId === request.bookmarkId);
+  const bookmark: MockBookmark = {
+    id: ++db.sequences.bookmarks,
+    fileMetadataId: request.fileMetadataId,
+    auditDocumentId: audit.id,
+    bookmarkId: request.bookmarkId,
+    bookmarkKey: item?.bookmarkKey ?? `Bookmark${request.bookmarkId}`,
+    displayText: item?.displayText ?? `Bookmark ${request.bookmarkId}`,
+    value: request.value ?? '',
+    appliedFromTemplateId: template?.id ?? null,
+    templateName: template?.name ?? '',
+    createdDate: now(),
+    createdBy: MOCK_USER.email,
+  };
+  db.bookmarks.push(bookmark);
+  return bookmark;
+}
+
+function toBase64(text: string): string {
+  return btoa(text);
+}
+
+// ---------------------------------------------------------------------------
+// Reference data (NUPIC audits, personnel, suppliers)
+// ---------------------------------------------------------------------------
+
+const referenceAuditRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/ReferenceAudits/GetAllNupicAudits',
+    handler: (db, { query }) =>
+      ok(
+        paginate(
+          getNupicAudits(db).filter((a) =>
+            matches(query.get('search'), a.auditNumber, a.supplierNumber, a.leadAuditorName)
+          ),
+          intQuery(query, 'pageNumber'),
+          intQuery(query, 'pageSize') ?? 10
+        )
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceAudits/supplier/{supplierNumber}',
+    handler: (db, { params }) => ok(db.referenceAudits.filter((a) => a.supplierNumber === params['supplierNumber'])),
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceAudits',
+    handler: (db, { query }) =>
+      ok(
+        paginate(
+          getNupicAudits(db).filter((a) =>
+            matches(query.get('search'), a.auditNumber, a.supplierNumber, a.leadAuditorName)
+          ),
+          intQuery(query, 'pageNumber'),
+          intQuery(query, 'pageSize') ?? 10
+        )
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceAudits/{auditNumber}/exists',
+    handler: (db, { params }) => ok(db.referenceAudits.some((a) => a.auditNumber === params['auditNumber'])),
+  },
+  {
+    method: 'HEAD',
+    path: '/api/ReferenceAudits/{auditNumber}',
+    handler: (db, { params }) =>
+      db.referenceAudits.some((a) => a.auditNumber === params['auditNumber']) ? ok(null) : { status: 404 },
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceAudits/{auditNumber}',
+    handler: (db, { params }) => {
+      const audit = db.referenceAudits.find((a) => a.auditNumber === params['auditNumber']);
+      return audit ? ok(audit) : notFound(`NUPIC audit ${params['auditNumber']} was not found`);
+    },
+  },
+];
+
+const referencePersonnelRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/active',
+    handler: (db) => result(db.personnel.filter((p) => p.isActive)),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/auditors/all',
+    handler: (db) => result(db.personnel.filter((p) => p.isAuditor)),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/auditors',
+    handler: (db) => result(db.personnel.filter((p) => p.isAuditor && p.isActive)),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/by-email',
+    handler: (db, { query }) => {
+      const person = personnelByEmail(db, query.get('email'));
+      return person ? result(person) : failedResult(404, `No personnel found with email ${query.get('email') ?? ''}`);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/search',
+    handler: (db, { query }) =>
+      result(
+        db.personnel
+          .filter((p) => matches(query.get('term'), p.name, p.email, p.personnelId, p.memberCode))
+          .slice(0, intQuery(query, 'take') ?? 25)
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/member/{memberCode}/auditors',
+    handler: (db, { params }) =>
+      result(db.personnel.filter((p) => p.isAuditor && p.memberCode?.toUpperCase() === params['memberCode'].toUpperCase())),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/member/{memberCode}',
+    handler: (db, { params }) =>
+      result(db.personnel.filter((p) => p.memberCode?.toUpperCase() === params['memberCode'].toUpperCase())),
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel/{personnelNumber}',
+    handler: (db, { params }) => {
+      const person = db.personnel.find((p) => p.personnelNumber === Number(params['personnelNumber']));
+      return person ? result(person) : failedResult(404, `Personnel ${params['personnelNumber']} was not found`);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/reference-personnel',
+    handler: (db, { query }) => {
+      const memberCode = query.get('MemberCode');
+      const personnel = db.personnel.filter(
+        (p) =>
+          matches(query.get('SearchTerm'), p.name, p.email, p.personnelId, p.role) &&
+          (!memberCode || p.memberCode?.toUpperCase() === memberCode.toUpperCase()) &&
+          (!boolQuery(query, 'OnlyActive') || p.isActive) &&
+          (!boolQuery(query, 'OnlyAuditors') || p.isAuditor)
+      );
+      return result(paginate(personnel, intQuery(query, 'PageNumber'), intQuery(query, 'PageSize') ?? 20));
+    },
+  },
+];
+
+const referenceSupplierRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/ReferenceSuppliers/search',
+    handler: (db, { query }) =>
+      ok(db.suppliers.filter((s) => matches(query.get('searchTerm'), s.supplierNumber, s.supplierName, s.city))),
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceSuppliers',
+    handler: (db) => ok(paginate(db.suppliers)),
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceSuppliers/{supplierNumber}/exists',
+    handler: (db, { params }) => ok(db.suppliers.some((s) => s.supplierNumber === params['supplierNumber'])),
+  },
+  {
+    method: 'HEAD',
+    path: '/api/ReferenceSuppliers/{supplierNumber}',
+    handler: (db, { params }) =>
+      db.suppliers.some((s) => s.supplierNumber === params['supplierNumber']) ? ok(null) : { status: 404 },
+  },
+  {
+    method: 'GET',
+    path: '/api/ReferenceSuppliers/{supplierNumber}',
+    handler: (db, { params }) => {
+      const supplier = db.suppliers.find((s) => s.supplierNumber === params['supplierNumber']);
+      return supplier ? ok(supplier) : notFound(`Supplier ${params['supplierNumber']} was not found`);
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Audits
+// ---------------------------------------------------------------------------
+
+const auditRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/Audits/GetAll',
+    handler: (db, { query }) =>
+      ok(paginate(db.audits, intQuery(query, 'pageNumber') ?? 1, intQuery(query, 'pageSize') ?? 10)),
+  },
+  {
+    method: 'GET',
+    path: '/api/Audits/search',
+    handler: (db, { query }) => {
+      const auditNumber = query.get('auditNumber');
+      const supplierNumber = query.get('supplierNumber');
+      const fiscalYear = intQuery(query, 'fiscalYear');
+      return ok(
+        db.audits.filter(
+          (a) =>
+            (!auditNumber || a.auditNumber?.includes(auditNumber)) &&
+            (!supplierNumber || a.supplierNumber === supplierNumber) &&
+            (!fiscalYear || (!!a.startDate && new Date(a.startDate).getUTCFullYear() === fiscalYear))
+        )
+      );
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/Audits',
+    handler: (db, { body }) => {
+      const request = body as CreateAuditRequest;
+      const errors: Record<string, string[]> = {};
+      if (db.audits.some((a) => a.auditNumber === request.auditNumber)) {
+        errors['AuditNumber'] = [`Audit number ${request.auditNumber} already exists.`];
+      }
+      if (!db.suppliers.some((s) => s.supplierNumber === request.supplierNumber)) {
+        errors['SupplierNumber'] = [`Supplier ${request.supplierNumber} was not found.`];
+      }
+      if (!AUDIT_TYPES[request.auditTypeId]) {
+        errors['AuditTypeId'] = [`Audit type ${request.auditTypeId} is not valid.`];
+      }
+      if (Object.keys(errors).length > 0) {
+        return validationProblem(errors);
+      }
+
+      const audit: MockAudit = {
+        ...request,
+        id: ++db.sequences.audits,
+        auditTypeName: AUDIT_TYPES[request.auditTypeId],
+        leadAuditorName: leadAuditorName(db, request.fkPerNumb),
+        auditApproved: false,
+        approvedBy: '',
+        createdDate: now(),
+        createdBy: MOCK_USER.email,
+        updatedDate: now(),
+        updatedBy: MOCK_USER.email,
+      } as MockAudit;
+      db.audits.push(audit);
+      createPhaseAssignments(db, audit);
+      syncReferenceData(db);
+      return created(audit);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Audits/{id}',
+    handler: (db, { params }) => {
+      const audit = findAudit(db, params['id']);
+      return audit ? ok(audit) : notFound(`Audit ${params['id']} was not found`);
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/api/Audits/{id}',
+    handler: (db, { params, body }) => {
+      const audit = findAudit(db, params['id']);
+      if (!audit) return notFound(`Audit ${params['id']} was not found`);
+
+      const request = body as UpdateAuditRequest;
+      Object.assign(audit, request as Partial<MockAudit>, {
+        leadAuditorName: request.fkPerNumb !== undefined ? leadAuditorName(db, request.fkPerNumb) : audit.leadAuditorName,
+        updatedDate: now(),
+        updatedBy: request.updatedBy ?? MOCK_USER.email,
+      });
+      syncReferenceData(db);
+      return ok(audit);
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/Audits/{id}',
+    handler: (db, { params }) => {
+      const audit = findAudit(db, params['id']);
+      if (!audit) return notFound(`Audit ${params['id']} was not found`);
+
+      db.audits = db.audits.filter((a) => a !== audit);
+      db.phaseAssignments = db.phaseAssignments.filter((a) => a.auditId !== audit.id);
+      db.files = db.files.filter((f) => f.auditDocumentId !== audit.id);
+      db.bookmarks = db.bookmarks.filter((b) => b.auditDocumentId !== audit.id);
+      syncReferenceData(db);
+      return noContent();
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Audit files and document merge
+// ---------------------------------------------------------------------------
+
+const auditFileRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/api/AuditFiles/{auditId}/files/merge',
+    handler: (db, { params, body }) => {
+      const audit = findAudit(db, params['auditId']);
+      if (!audit) return notFound(`Audit ${params['auditId']} was not found`);
+
+      const request = body as MergeFilesRequest;
+      const target = findFile(db, params['auditId'], String(request.targetFileId));
+      if (!target) return notFound(`File ${request.targetFileId} was not found`);
+
+      const sourceIds = new Set(request.sourceFileIds);
+      db.files = db.files.filter((f) => f.auditDocumentId !== audit.id || !sourceIds.has(f.id!));
+      Object.assign(target, {
+        fileName: request.mergedFileName,
+        isMerged: true,
+        updatedDate: now(),
+        updatedBy: MOCK_USER.email,
+      });
+      return ok(target);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/AuditFiles/{auditId}/phases/{phaseAssignmentId}/files',
+    handler: (db, { params }) =>
+      ok(
+        db.files.filter(
+          (f) =>
+            f.auditDocumentId === Number(params['auditId']) && f.phaseAssignmentId === Number(params['phaseAssignmentId'])
+        )
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/AuditFiles/{auditId}/files/{fileId}/download',
+    handler: (db, { params }) => {
+      const file = findFile(db, params['auditId'], params['fileId']);
+      if (!file) return notFound(`File ${params['fileId']} was not found`);
+
+      const content = createMockPdf(file.fileName ?? 'Document', [`Audit ${file.auditNumber}`, file.phaseName ?? '']);
+      return ok({
+        fileId: file.id,
+        fileName: file.fileName,
+        contentType: file.contentType,
+        content: toBase64(content),
+        fileSize: content.length,
+        fileExtension: '.pdf',
+        contentHash: file.guid,
+        eTag: `"${file.guid}"`,
+        lastModified: file.updatedDate ?? file.createdDate ?? null,
+      });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditFiles/{auditId}/files/{fileId}/review',
+    handler: (db, { params, body }) => {
+      const file = findFile(db, params['auditId'], params['fileId']);
+      if (!file) return notFound(`File ${params['fileId']} was not found`);
+
+      const request = body as ReviewFileRequest;
+      Object.assign(file, {
+        fileStatusId: 2,
+        fileStatusName: 'Reviewed',
+        reviewedBy: MOCK_USER.name,
+        reviewedDate: now(),
+        notifiedDate: request.sendNotification ? now() : file.notifiedDate,
+        notifiedEmail: request.sendNotification ? MOCK_USER.email : file.notifiedEmail,
+      });
+      return ok(file);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/AuditFiles/{auditId}/files/{fileId}',
+    handler: (db, { params }) => {
+      const file = findFile(db, params['auditId'], params['fileId']);
+      return file ? ok(file) : notFound(`File ${params['fileId']} was not found`);
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/api/AuditFiles/{auditId}/files/{fileId}',
+    handler: (db, { params, body }) => {
+      const file = findFile(db, params['auditId'], params['fileId']);
+      if (!file) return notFound(`File ${params['fileId']} was not found`);
+
+      const request = body as UpdateFileMetadataRequest;
+      Object.assign(file, {
+        fileName: request.fileName ?? file.fileName,
+        sortOrder: request.sortOrder ?? file.sortOrder,
+        notifiedDate: request.notifiedDate ?? file.notifiedDate,
+        notifiedEmail: request.notifiedEmail ?? file.notifiedEmail,
+        updatedDate: now(),
+        updatedBy: request.updatedBy ?? MOCK_USER.email,
+      });
+      return ok(file);
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/AuditFiles/{auditId}/files/{fileId}',
+    handler: (db, { params }) => {
+      const file = findFile(db, params['auditId'], params['fileId']);
+      if (!file) return notFound(`File ${params['fileId']} was not found`);
+
+      db.files = db.files.filter((f) => f !== file);
+      db.bookmarks = db.bookmarks.filter((b) => b.fileMetadataId !== file.id);
+      return noContent();
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/AuditFiles/{auditId}/files',
+    handler: (db, { params }) => ok(db.files.filter((f) => f.auditDocumentId === Number(params['auditId']))),
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditFiles/{auditId}/files',
+    handler: (db, { params, body }) => {
+      const audit = findAudit(db, params['auditId']);
+      if (!audit) return notFound(`Audit ${params['auditId']} was not found`);
+
+      const form = body instanceof FormData ? body : new FormData();
+      const uploads = form.getAll('files').filter((entry): entry is File => entry instanceof File);
+      if (uploads.length === 0) {
+        return validationProblem({ Files: ['At least one file is required.'] });
+      }
+
+      const phaseAssignmentId = form.get('phaseAssignmentId');
+      const phase = phaseAssignmentId ? findAssignment(db, params['auditId'], String(phaseAssignmentId)) : undefined;
+      return created(uploads.map((upload) => createFile(db, audit, upload.name, phase)));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditFiles/{auditId}/send-approval-email',
+    handler: (db, { params }) => {
+      const audit = findAudit(db, params['auditId']);
+      return audit ? ok({ sent: true, to: audit.contactPersonEmail }) : notFound(`Audit ${params['auditId']} was not found`);
+    },
+  },
+];
+
+const documentMergeRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/AuditDocumentMerge/templates',
+    handler: (db) => ok(db.mergeTemplates),
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditDocumentMerge/validate',
+    handler: (db, { body }) => {
+      const request = body as MergeAuditDocumentsRequest;
+      const errors: string[] = [];
+      if (!request.fileIds?.length) errors.push('Select at least one file to merge.');
+      if (request.templateName && !db.mergeTemplates.some((t) => t.name === request.templateName)) {
+        errors.push(`Template '${request.templateName}' does not exist.`);
+      }
+      return ok({ isValid: errors.length === 0, errors });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditDocumentMerge/preview',
+    handler: (db, { body }) => pdf(mergedPdf(db, body as MergeAuditDocumentsRequest, 'Preview')),
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditDocumentMerge/merge',
+    handler: (db, { body }) => {
+      const request = body as MergeAuditDocumentsRequest;
+      const audit = findAudit(db, request.auditDocumentId ?? 0);
+      if (!audit) return notFound(`Audit ${request.auditDocumentId} was not found`);
+
+      const merged = createFile(db, audit, `${request.customFilename || `${audit.auditNumber} Package`}.pdf`);
+      merged.isMerged = true;
+      return pdf(mergedPdf(db, request, merged.fileName!));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/AuditDocumentMerge/rename-previous-merges/{auditId}',
+    handler: (db, { params, query }) => {
+      const baseName = query.get('baseName');
+      const previous = db.files.filter((f) => f.auditDocumentId === Number(params['auditId']) && f.isMerged);
+      previous.forEach((file, index) => {
+        if (!baseName || file.fileName?.startsWith(baseName)) {
+          file.fileName = `${file.fileName?.replace(/\.pdf$/i, '')} (previous ${index + 1}).pdf`;
+        }
+      });
+      return ok({ renamed: previous.length });
+    },
+  },
+];
+
+function mergedPdf(db: MockDatabase, request: MergeAuditDocumentsRequest, title: string): string {
+  const files = db.files.filter((f) => request.fileIds?.includes(f.id!));
+  return createMockPdf(title, [
+    `Template: ${request.templateName ?? 'standard'}`,
+    ...files.map((file, i) => `${i + 1}. ${file.fileName}`),
+    ...(request.bookmarks ?? []),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Bookmarks
+// ---------------------------------------------------------------------------
+
+const bookmarkRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/Bookmarks/types/{auditTypeId}/bookmark-template',
+    handler: (db, { params }) => {
+      const template = db.bookmarkTemplates.get(Number(params['auditTypeId']));
+      return template ? ok(template) : notFound(`No bookmark template for audit type ${params['auditTypeId']}`);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/Bookmarks/{auditId}/bookmarks/batch',
+    handler: (db, { params, body }) => {
+      const audit = findAudit(db, params['auditId']);
+      if (!audit) return notFound(`Audit ${params['auditId']} was not found`);
+
+      return created((body as CreateDocumentBookmarkRequest[]).map((request) => upsertBookmark(db, audit, request)));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Bookmarks/{auditId}/phases/{phaseAssignmentId}/bookmarks',
+    handler: (db, { params }) => {
+      const fileIds = new Set(
+        db.files.filter((f) => f.phaseAssignmentId === Number(params['phaseAssignmentId'])).map((f) => f.id)
+      );
+      return ok(db.bookmarks.filter((b) => b.auditDocumentId === Number(params['auditId']) && fileIds.has(b.fileMetadataId)));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Bookmarks/{auditId}/bookmarks/{bookmarkId}',
+    handler: (db, { params }) => {
+      const bookmark = findBookmark(db, params['auditId'], params['bookmarkId']);
+      return bookmark ? ok(bookmark) : notFound(`Bookmark ${params['bookmarkId']} was not found`);
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/api/Bookmarks/{auditId}/bookmarks/{bookmarkId}',
+    handler: (db, { params, body }) => {
+      const bookmark = findBookmark(db, params['auditId'], params['bookmarkId']);
+      if (!bookmark) return notFound(`Bookmark ${params['bookmarkId']} was not found`);
+
+      bookmark.value = (body as UpdateDocumentBookmarkRequest).value;
+      return ok(bookmark);
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/Bookmarks/{auditId}/bookmarks/{bookmarkId}',
+    handler: (db, { params }) => {
+      const bookmark = findBookmark(db, params['auditId'], params['bookmarkId']);
+      if (!bookmark) return notFound(`Bookmark ${params['bookmarkId']} was not found`);
+
+      db.bookmarks = db.bookmarks.filter((b) => b !== bookmark);
+      return noContent();
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Bookmarks/{auditId}/bookmarks',
+    handler: (db, { params }) => ok(db.bookmarks.filter((b) => b.auditDocumentId === Number(params['auditId']))),
+  },
+  {
+    method: 'POST',
+    path: '/api/Bookmarks/{auditId}/bookmarks',
+    handler: (db, { params, body }) => {
+      const audit = findAudit(db, params['auditId']);
+      if (!audit) return notFound(`Audit ${params['auditId']} was not found`);
+
+      return created(upsertBookmark(db, audit, body as CreateDocumentBookmarkRequest));
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Phases
+// ---------------------------------------------------------------------------
+
+const phaseRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/Phases/types/{auditTypeId}/available-phases',
+    handler: (_db, { params }) => ok(getPhasesForAuditType(Number(params['auditTypeId']))),
+  },
+  {
+    method: 'GET',
+    path: '/api/Phases/{auditId}/phases/current',
+    handler: (db, { params }) => ok(auditPhases(db, Number(params['auditId'])).filter((a) => a.isActive)),
+  },
+  {
+    method: 'POST',
+    path: '/api/Phases/{auditId}/phases/start',
+    handler: (db, { params }) => {
+      const phases = auditPhases(db, Number(params['auditId']));
+      if (phases.length === 0) return notFound(`Audit ${params['auditId']} was not found`);
+      if (phases.some((a) => a.isActive)) {
+        return problem(400, 'Phase already in progress', 'Complete the current phase before starting the next one.');
+      }
+
+      const next = phases.find((a) => a.status === 'NotStarted');
+      if (!next) return problem(400, 'No phases remaining', 'Every phase of this audit has been completed.');
+
+      Object.assign(next, { status: 'InProgress', isActive: true, startedDate: now() });
+      return created(next);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/Phases/{auditId}/phases/{phaseAssignmentId}/complete',
+    handler: (db, { params }) => {
+      const assignment = findAssignment(db, params['auditId'], params['phaseAssignmentId']);
+      if (!assignment) return notFound(`Phase ${params['phaseAssignmentId']} was not found`);
+
+      Object.assign(assignment, {
+        status: 'Completed',
+        isActive: false,
+        startedDate: assignment.startedDate ?? now(),
+        completedDate: now(),
+        completedBy: MOCK_USER.name,
+      });
+      return ok(assignment);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/Phases/{auditId}/phases/{phaseAssignmentId}/reactivate',
+    handler: (db, { params }) => {
+      const assignment = findAssignment(db, params['auditId'], params['phaseAssignmentId']);
+      if (!assignment) return notFound(`Phase ${params['phaseAssignmentId']} was not found`);
+
+      for (const other of auditPhases(db, assignment.auditId!)) {
+        other.isActive = false;
+      }
+      Object.assign(assignment, { status: 'InProgress', isActive: true, completedDate: null, completedBy: '' });
+      return ok(assignment);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Phases/{auditId}/phases/{phaseAssignmentId}',
+    handler: (db, { params }) => {
+      const assignment = findAssignment(db, params['auditId'], params['phaseAssignmentId']);
+      return assignment ? ok(assignment) : notFound(`Phase ${params['phaseAssignmentId']} was not found`);
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/api/Phases/{auditId}/phases/{phaseAssignmentId}',
+    handler: (db, { params, body }) => {
+      const assignment = findAssignment(db, params['auditId'], params['phaseAssignmentId']);
+      if (!assignment) return notFound(`Phase ${params['phaseAssignmentId']} was not found`);
+
+      const request = body as UpdatePhaseAssignmentRequest;
+      Object.assign(assignment, {
+        status: request.status ?? assignment.status,
+        isActive: request.isActive ?? assignment.isActive,
+      });
+      return ok(assignment);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/Phases/{auditId}/phases',
+    handler: (db, { params }) => ok(auditPhases(db, Number(params['auditId']))),
+  },
+];
+
+export const MOCK_ROUTES: MockRoute[] = [
+  ...referenceAuditRoutes,
+  ...referencePersonnelRoutes,
+  ...referenceSupplierRoutes,
+  ...auditRoutes,
+  ...auditFileRoutes,
+  ...documentMergeRoutes,
+  ...bookmarkRoutes,
+  ...phaseRoutes,
+];
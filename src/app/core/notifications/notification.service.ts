@@ -0,0 +1,115 @@
+import { Injectable, signal } from '@angular/core';
+import { AppError, toAppError } from '../errors/app-error';
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  title?: string;
+  message: string;
+
+  /** Additional lines, e.g. individual validation errors */
+  details?: string[];
+}
+
+export interface NotifyOptions {
+  title?: string;
+  details?: string[];
+
+  /** Auto-dismiss delay in ms; 0 keeps the toast until dismissed (default: 5000, errors: 8000) */
+  duration?: number;
+}
+
+/**
+ * Notification Service
+ *
+ * Global toast queue rendered by ToastContainerComponent:
+ * - success/info/warning/error helpers
+ * - `notifyError` turns any thrown value into an AppError and shows its messages
+ * - Identical messages shown back to back are collapsed
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NotificationService {
+  private nextId = 1;
+  private readonly timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  readonly notifications = signal<AppNotification[]>([]);
+
+  success(message: string, options?: NotifyOptions): number {
+    return this.show('success', message, options);
+  }
+
+  info(message: string, options?: NotifyOptions): number {
+    return this.show('info', message, options);
+  }
+
+  warning(message: string, options?: NotifyOptions): number {
+    return this.show('warning', message, options);
+  }
+
+  error(message: string, options?: NotifyOptions): number {
+    return this.show('error', message, { duration: 8000, ...options });
+  }
+
+  /**
+   * Show an error toast for any thrown value
+   */
+  notifyError(error: unknown, options?: NotifyOptions): AppError {
+    const appError = toAppError(error);
+    const details = appError.messages.filter((message) => message !== appError.message);
+
+    this.error(appError.message, {
+      details: details.length > 0 ? details : undefined,
+      ...options,
+    });
+
+    return appError;
+  }
+
+  /**
+   * Remove a notification
+   */
+  dismiss(id: number): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.notifications.update((notifications) => notifications.filter((n) => n.id !== id));
+  }
+
+  /**
+   * Remove all notifications
+   */
+  clear(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.notifications.set([]);
+  }
+
+  private show(type: NotificationType, message: string, options: NotifyOptions = {}): number {
+    // Collapse duplicates (e.g. several queries failing for the same reason)
+    const existing = this.notifications().find(
+      (n) => n.type === type && n.message === message && n.title === options.title
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    const id = this.nextId++;
+    this.notifications.update((notifications) => [
+      ...notifications,
+      { id, type, title: options.title, message, details: options.details },
+    ]);
+
+    const duration = options.duration ?? 5000;
+    if (duration > 0) {
+      this.timers.set(
+        id,
+        setTimeout(() => this.dismiss(id), duration)
+      );
+    }
+
+    return id;
+  }
+}
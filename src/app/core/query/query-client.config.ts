@@ -1,7 +1,11 @@
+import { InjectionToken, inject } from '@angular/core';
 import {
+  MutationCache,
+  QueryCache,
   QueryClient,
   DefaultOptions,
 } from '@tanstack/angular-query-experimental';
+import { NotificationService } from '../notifications/notification.service';
 
 /**
  * Default options for TanStack Query
@@ -20,11 +24,54 @@ const queryConfig: DefaultOptions = {
   },
 };
 
+/**
+ * Per-query/mutation error notification options, read from `meta`:
+ * - `notifyOnError: false` opts out of the global error toast
+ * - `errorTitle` sets the toast title
+ *
+ * ```ts
+ * injectMutation(() => ({ ...auditsDeleteAuditMutation(), meta: { errorTitle: 'Delete failed' } }));
+ * ```
+ */
+type ErrorNotificationMeta = {
+  notifyOnError?: boolean;
+  errorTitle?: string;
+};
+
 /**
  * Create a new QueryClient instance with default configuration
+ *
+ * When a NotificationService is given, query and mutation errors are surfaced as toasts.
+ * Queries only notify for background refetch failures: initial load errors are rendered inline by the component.
  */
-export function createQueryClient(): QueryClient {
+export function createQueryClient(notifications?: NotificationService): QueryClient {
+  const notify = (error: unknown, meta: ErrorNotificationMeta | undefined): void => {
+    if (!notifications || meta?.notifyOnError === false) return;
+    notifications.notifyError(error, { title: meta?.errorTitle });
+  };
+
   return new QueryClient({
     defaultOptions: queryConfig,
+    queryCache: new QueryCache({
+      onError: (error, query) => {
+        if (query.state.data !== undefined) {
+          notify(error, query.meta as ErrorNotificationMeta | undefined);
+        }
+      },
+    }),
+    mutationCache: new MutationCache({
+      onError: (error, _variables, _context, mutation) => {
+        notify(error, mutation.meta as ErrorNotificationMeta | undefined);
+      },
+    }),
   });
 }
+
+/**
+ * App-wide QueryClient wired to the global NotificationService
+ * Pass to `provideTanStackQuery` so the client can be created inside the injection context
+ */
+export const QUERY_CLIENT = new InjectionToken<QueryClient>('QUERY_CLIENT', {
+  providedIn: 'root',
+  factory: () => createQueryClient(inject(NotificationService)),
+});
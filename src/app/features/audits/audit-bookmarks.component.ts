@@ -0,0 +1,441 @@
+/**
+ * Audit Bookmarks Component (TanStack Query)
+ *
+ * Bookmark editor driven by the audit type's bookmark template
+ * Demonstrates:
+ * - Zod schema built at runtime from BookmarkTemplateItemResponse items
+ * - DynamicFormComponent rendering a runtime schema
+ * - Saved values loaded per phase of the selected document
+ * - New values saved with a single batch call, existing bookmarks updated in place
+ */
+
+import { Component, signal, inject, computed } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { injectQuery, injectMutation, injectQueryClient } from '@tanstack/angular-query-experimental';
+import { z } from 'zod';
+
+import { DynamicFormComponent, DynamicFormConfig, FieldConfig, FieldType } from '../../shared/components/dynamic-form';
+import type {
+  BookmarkTemplateItemResponse,
+  BookmarkTemplateResponse,
+  CreateDocumentBookmarkRequest,
+  DocumentBookmarkResponse,
+} from '@/core/api/generated';
+import {
+  auditFilesGetAuditFilesOptions,
+  auditsGetAuditByIdOptions,
+  bookmarksCreateBookmarksBatchMutation,
+  bookmarksGetAuditBookmarksOptions,
+  bookmarksGetAuditBookmarksQueryKey,
+  bookmarksGetBookmarkTemplateOptions,
+  bookmarksGetPhaseBookmarksOptions,
+  bookmarksGetPhaseBookmarksQueryKey,
+  bookmarksUpdateBookmarkMutation,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { toAppError } from '@/core/errors/app-error';
+
+type BookmarkValues = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Form control name for a template item
+ */
+function getBookmarkFieldName(item: BookmarkTemplateItemResponse): string {
+  return `bookmark_${item.bookmarkId}`;
+}
+
+/**
+ * Map a template item dataType onto a dynamic form field type
+ */
+function getBookmarkFieldType(dataType: string | undefined): FieldType {
+  switch ((dataType || '').toLowerCase()) {
+    case 'int':
+    case 'integer':
+    case 'number':
+    case 'decimal':
+    case 'double':
+      return 'number';
+    case 'bool':
+    case 'boolean':
+      return 'checkbox';
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'email':
+      return 'email';
+    case 'multiline':
+    case 'textarea':
+      return 'textarea';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Build the Zod type for a template item
+ */
+function buildBookmarkZodType(item: BookmarkTemplateItemResponse): z.ZodTypeAny {
+  const label = item.displayText || item.bookmarkKey || 'Value';
+
+  switch (getBookmarkFieldType(item.dataType)) {
+    case 'number':
+      return item.isRequired
+        ? z.number({ invalid_type_error: `${label} is required` })
+        : z.number().nullable().optional();
+    case 'checkbox':
+      return z.boolean().optional();
+    case 'email':
+      return item.isRequired
+        ? z.string().email('Invalid email')
+        : z.union([z.string().email('Invalid email'), z.literal('')]).optional();
+    default:
+      return item.isRequired ? z.string().min(1, `${label} is required`) : z.string().optional();
+  }
+}
+
+/**
+ * Convert a stored string value into the form value for a field type
+ */
+function parseBookmarkValue(value: string | undefined, type: FieldType): string | number | boolean | null | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  switch (type) {
+    case 'number':
+      return value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
+    case 'checkbox':
+      return value.toLowerCase() === 'true';
+    case 'date':
+      // Stored values may carry a time component; date inputs expect yyyy-MM-dd
+      return value.split('T')[0];
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build a dynamic form config from a bookmark template
+ */
+function buildBookmarkFormConfig(template: BookmarkTemplateResponse): DynamicFormConfig<z.ZodRawShape> {
+  const items = [...(template.items || [])]
+    .filter((item) => item.bookmarkId != null)
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+  const shape: z.ZodRawShape = {};
+  const fields: Record<string, Partial<FieldConfig>> = {};
+
+  for (const item of items) {
+    const name = getBookmarkFieldName(item);
+    const type = getBookmarkFieldType(item.dataType);
+
+    shape[name] = buildBookmarkZodType(item);
+    fields[name] = {
+      type,
+      label: item.displayText || item.bookmarkKey || name,
+      hint: item.bookmarkKey,
+      defaultValue: parseBookmarkValue(item.overrideDefaultValue, type),
+      colSpan: type === 'textarea' ? 2 : 1,
+    };
+  }
+
+  return {
+    schema: z.object(shape),
+    fields,
+    layout: 'grid',
+    columns: 2,
+    submitLabel: 'Save Bookmarks',
+    showCancel: true,
+  };
+}
+
+@Component({
+  selector: 'app-audit-bookmarks',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DynamicFormComponent],
+  template: `
+    <div class="container mx-auto px-4 py-8 max-w-5xl">
+      <!-- Header -->
+      <div class="mb-6">
+        <div class="flex items-center gap-4 mb-2">
+          <button type="button" (click)="goBack()" class="btn btn-ghost btn-sm gap-2">
+            <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Audits
+          </button>
+        </div>
+        <h1 class="text-3xl font-bold text-base-content">Bookmarks</h1>
+        <p class="mt-2 text-base-content/60">
+          {{ template()?.name || 'Bookmark template' }}
+          @if (template()?.description) {
+            · {{ template()?.description }}
+          }
+        </p>
+      </div>
+
+      <!-- Loading state -->
+      <div *ngIf="loading()" class="flex items-center justify-center py-12">
+        <div class="flex items-center gap-2">
+          <span class="loading loading-spinner loading-md"></span>
+          <span>Loading bookmark template...</span>
+        </div>
+      </div>
+
+      <!-- Error state -->
+      <div *ngIf="error()" class="alert alert-error mb-6">
+        <span>{{ error() }}</span>
+      </div>
+
+      @if (!loading() && template()) {
+        <!-- Target file -->
+        <div class="mb-6 flex items-center gap-3">
+          <label for="bookmark-file" class="text-sm font-medium text-base-content/70">Document</label>
+          <select
+            id="bookmark-file"
+            class="select select-bordered select-sm w-96"
+            [ngModel]="selectedFileId()"
+            (ngModelChange)="selectedFileId.set($event)"
+          >
+            <option [ngValue]="null" disabled>Select a document</option>
+            @for (file of files(); track file.id) {
+              <option [ngValue]="file.id">{{ file.fileName }}</option>
+            }
+          </select>
+        </div>
+
+        @if (templateItemCount() === 0) {
+          <div class="alert">
+            <span>This bookmark template has no items.</span>
+          </div>
+        }
+
+        <!-- The form resets to the saved values whenever the document or saved values change -->
+        @if (formConfig(); as config) {
+          @if (selectedFileId() !== null && templateItemCount() > 0) {
+            <div class="card bg-base-100 shadow-xl">
+              <div class="card-body">
+                <app-dynamic-form
+                  [config]="config"
+                  [initialData]="initialData()"
+                  [loading]="saving()"
+                  (formSubmit)="onSubmit($event)"
+                  (formCancel)="goBack()"
+                />
+              </div>
+            </div>
+          }
+        }
+      }
+
+      <!-- Success message -->
+      <div *ngIf="successMessage()" class="toast toast-end">
+        <div class="alert alert-success">
+          <span>{{ successMessage() }}</span>
+        </div>
+      </div>
+    </div>
+  `,
+})
+export class AuditBookmarksComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly queryClient = injectQueryClient();
+
+  // Get audit ID from route
+  readonly auditId = signal(Number(this.route.snapshot.paramMap.get('id')) || 0);
+
+  // Document the bookmarks are applied to
+  selectedFileId = signal<number | null>(null);
+
+  // TanStack Query for the audit (provides the audit type)
+  private auditQuery = injectQuery(() => auditsGetAuditByIdOptions({ path: { id: this.auditId() } }));
+
+  // TanStack Query for the audit type's bookmark template
+  private templateQuery = injectQuery(() => ({
+    ...bookmarksGetBookmarkTemplateOptions({ path: { auditTypeId: this.auditQuery.data()?.auditTypeId ?? 0 } }),
+    enabled: !!this.auditQuery.data()?.auditTypeId,
+  }));
+
+  // TanStack Query for audit files (bookmark targets)
+  private filesQuery = injectQuery(() => auditFilesGetAuditFilesOptions({ path: { auditId: this.auditId() } }));
+
+  private selectedFile = computed(() => (this.filesQuery.data() || []).find((file) => file.id === this.selectedFileId()));
+
+  private selectedPhaseId = computed(() => this.selectedFile()?.phaseAssignmentId ?? null);
+
+  // TanStack Queries for saved bookmark values: those of the document's phase,
+  // or of the whole audit for documents outside a phase
+  private phaseBookmarksQuery = injectQuery(() => ({
+    ...bookmarksGetPhaseBookmarksOptions({
+      path: { auditId: this.auditId(), phaseAssignmentId: this.selectedPhaseId() ?? 0 },
+    }),
+    enabled: this.selectedPhaseId() !== null,
+  }));
+
+  private auditBookmarksQuery = injectQuery(() => ({
+    ...bookmarksGetAuditBookmarksOptions({ path: { auditId: this.auditId() } }),
+    enabled: this.selectedFileId() !== null && this.selectedPhaseId() === null,
+  }));
+
+  private bookmarksQuery = computed(() =>
+    this.selectedPhaseId() !== null ? this.phaseBookmarksQuery : this.auditBookmarksQuery
+  );
+
+  /**
+   * TanStack Mutation for creating new bookmark values at once
+   */
+  private readonly createMutation = injectMutation(() => ({
+    ...bookmarksCreateBookmarksBatchMutation(),
+    meta: { notifyOnError: false },
+  }));
+
+  /**
+   * TanStack Mutation for updating a saved bookmark value
+   */
+  private readonly updateMutation = injectMutation(() => ({
+    ...bookmarksUpdateBookmarkMutation(),
+    meta: { notifyOnError: false },
+  }));
+
+  // Computed state from queries
+  template = computed(() => this.templateQuery.data());
+  files = computed(() => this.filesQuery.data() || []);
+  templateItemCount = computed(() => this.template()?.items?.length ?? 0);
+  loading = computed(
+    () => this.auditQuery.isLoading() || this.templateQuery.isLoading() || this.filesQuery.isLoading()
+  );
+  error = computed(
+    () =>
+      this.auditQuery.error()?.message ||
+      this.templateQuery.error()?.message ||
+      this.filesQuery.error()?.message ||
+      this.bookmarksQuery().error()?.message ||
+      this.saveError() ||
+      null
+  );
+
+  saving = computed(() => this.createMutation.isPending() || this.updateMutation.isPending());
+
+  // Saved bookmarks of the selected document, by template bookmark id
+  private savedBookmarks = computed(() => {
+    const fileId = this.selectedFileId();
+    return new Map(
+      (this.bookmarksQuery().data() || [])
+        .filter((bookmark: DocumentBookmarkResponse) => bookmark.fileMetadataId === fileId)
+        .map((bookmark) => [bookmark.bookmarkId, bookmark])
+    );
+  });
+
+  formConfig = computed(() => {
+    const template = this.template();
+    return template ? buildBookmarkFormConfig(template) : null;
+  });
+
+  // Saved values for the selected document, keyed by form control name
+  initialData = computed<BookmarkValues>(() => {
+    const fields = this.formConfig()?.fields || {};
+    const values: BookmarkValues = {};
+
+    for (const bookmark of this.savedBookmarks().values()) {
+      const name = `bookmark_${bookmark.bookmarkId}`;
+      const field = fields[name];
+      if (field) {
+        values[name] = parseBookmarkValue(bookmark.value, field.type ?? 'text');
+      }
+    }
+
+    return values;
+  });
+
+  successMessage = signal<string | null>(null);
+
+  // Failure of the last save; several bookmarks are saved at once, so one mutation's error may not cover it
+  saveError = signal<string | null>(null);
+
+  /**
+   * Save the template values for the selected document
+   * Saved bookmarks whose value changed are updated; values without a saved bookmark
+   * are created with one batch call.
+   */
+  async onSubmit(values: BookmarkValues): Promise<void> {
+    const fileMetadataId = this.selectedFileId();
+    if (fileMetadataId === null) return;
+
+    const auditId = this.auditId();
+    const saved = this.savedBookmarks();
+    const created: CreateDocumentBookmarkRequest[] = [];
+    const updates: Promise<unknown>[] = [];
+
+    for (const item of this.template()?.items || []) {
+      if (item.bookmarkId == null) continue;
+
+      const value = this.formatBookmarkValue(values[getBookmarkFieldName(item)]);
+      const bookmark = saved.get(item.bookmarkId);
+      if (bookmark?.id != null) {
+        if ((bookmark.value ?? '') !== (value ?? '')) {
+          updates.push(
+            this.updateMutation.mutateAsync({ path: { auditId, bookmarkId: bookmark.id }, body: { value: value ?? '' } })
+          );
+        }
+      } else if (value !== undefined) {
+        created.push({ fileMetadataId, bookmarkId: item.bookmarkId, value });
+      }
+    }
+
+    const count = updates.length + created.length;
+    if (count === 0) {
+      this.showSuccess('No changes to save');
+      return;
+    }
+    if (created.length > 0) {
+      updates.push(this.createMutation.mutateAsync({ path: { auditId }, body: created }));
+    }
+
+    this.saveError.set(null);
+    try {
+      await Promise.all(updates);
+      this.showSuccess(`${count} bookmark${count === 1 ? '' : 's'} saved`);
+    } catch (err) {
+      this.saveError.set(toAppError(err).message);
+    } finally {
+      this.invalidateBookmarkQueries();
+    }
+  }
+
+  /**
+   * Navigate back to audits list
+   */
+  goBack(): void {
+    this.router.navigate(['/audits']);
+  }
+
+  /**
+   * Refetch the saved bookmarks of the audit and of the selected document's phase
+   */
+  private invalidateBookmarkQueries(): void {
+    const auditId = this.auditId();
+    const phaseAssignmentId = this.selectedPhaseId();
+    this.queryClient.invalidateQueries({ queryKey: bookmarksGetAuditBookmarksQueryKey({ path: { auditId } }) });
+    if (phaseAssignmentId !== null) {
+      this.queryClient.invalidateQueries({
+        queryKey: bookmarksGetPhaseBookmarksQueryKey({ path: { auditId, phaseAssignmentId } }),
+      });
+    }
+  }
+
+  /**
+   * Bookmarks are stored as strings
+   */
+  private formatBookmarkValue(value: BookmarkValues[string]): string | undefined {
+    if (value === null || value === undefined || value === '') return undefined;
+    return String(value);
+  }
+
+  /**
+   * Show a temporary success toast
+   */
+  private showSuccess(message: string): void {
+    this.successMessage.set(message);
+    setTimeout(() => this.successMessage.set(null), 3000);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Audit Details Component (TanStack Query)
+ *
+ * Detail content of an expanded row in the audits table:
+ * phase assignments with their status and file counts.
+ * Created only when the row is expanded, so the phase and file queries load lazily
+ * (and come from the cache when the row is opened again).
+ */
+
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { injectQuery } from '@tanstack/angular-query-experimental';
+
+import type { AuditResponse, PhaseAssignmentResponse } from '@/core/api/generated';
+import {
+  auditFilesGetAuditFilesOptions,
+  phasesGetAuditPhasesOptions,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+
+@Component({
+  selector: 'app-audit-details',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    @if (loading()) {
+      <div class="flex items-center gap-2 text-sm text-gray-500">
+        <svg class="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+          <circle class="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" stroke-width="4"></circle>
+          <path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        <span>Loading phases...</span>
+      </div>
+    } @else if (error()) {
+      <p class="text-sm text-red-600">{{ error() }}</p>
+    } @else {
+      <div class="space-y-3">
+        <p class="text-sm font-medium text-gray-900">
+          {{ phases().length }} {{ phases().length === 1 ? 'phase' : 'phases' }} ·
+          {{ totalFiles() }} {{ totalFiles() === 1 ? 'file' : 'files' }}
+        </p>
+
+        @if (phases().length === 0) {
+          <p class="text-sm text-gray-500">No phases have been started for this audit yet.</p>
+        } @else {
+          <table class="min-w-full text-sm" aria-label="Audit phases">
+            <thead>
+              <tr class="text-left text-xs uppercase tracking-wider text-gray-500">
+                <th scope="col" class="py-1 pr-6 font-medium">Phase</th>
+                <th scope="col" class="py-1 pr-6 font-medium">Status</th>
+                <th scope="col" class="py-1 pr-6 font-medium">Started</th>
+                <th scope="col" class="py-1 pr-6 font-medium">Completed</th>
+                <th scope="col" class="py-1 text-right font-medium">Files</th>
+              </tr>
+            </thead>
+            <tbody class="text-gray-900">
+              @for (phase of phases(); track phase.id) {
+                <tr>
+                  <td class="py-1 pr-6">{{ phase.phaseName || phase.phaseCode }}</td>
+                  <td class="py-1 pr-6">{{ getPhaseStatus(phase) }}</td>
+                  <td class="py-1 pr-6">{{ formatDate(phase.startedDate, 'Not started') }}</td>
+                  <td class="py-1 pr-6">{{ formatDate(phase.completedDate, '—') }}</td>
+                  <td class="py-1 text-right">{{ fileCounts().get(phase.id) ?? 0 }}</td>
+                </tr>
+              }
+            </tbody>
+          </table>
+        }
+      </div>
+    }
+  `,
+})
+export class AuditDetailsComponent {
+  audit = input.required<AuditResponse>();
+
+  private auditId = computed(() => this.audit().id ?? 0);
+
+  // TanStack Query for the phase assignments of the audit
+  private phasesQuery = injectQuery(() => phasesGetAuditPhasesOptions({ path: { auditId: this.auditId() } }));
+
+  // TanStack Query for the audit files, counted per phase assignment
+  private filesQuery = injectQuery(() => auditFilesGetAuditFilesOptions({ path: { auditId: this.auditId() } }));
+
+  phases = computed(() => this.phasesQuery.data() || []);
+
+  fileCounts = computed(() => {
+    const counts = new Map<number | undefined, number>();
+    for (const file of this.filesQuery.data() || []) {
+      counts.set(file.phaseAssignmentId, (counts.get(file.phaseAssignmentId) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  totalFiles = computed(() => this.filesQuery.data()?.length ?? 0);
+
+  loading = computed(() => this.phasesQuery.isLoading() || this.filesQuery.isLoading());
+  error = computed(() => this.phasesQuery.error()?.message || this.filesQuery.error()?.message || null);
+
+  /**
+   * Status label of a phase assignment
+   */
+  getPhaseStatus(phase: PhaseAssignmentResponse): string {
+    if (phase.status) return phase.status;
+    if (phase.completedDate) return 'Completed';
+    return phase.startedDate ? 'Active' : 'Pending';
+  }
+
+  /**
+   * Format a phase date
+   */
+  formatDate(value: Date | string | null | undefined, fallback: string): string {
+    return value ? new Date(value).toLocaleDateString() : fallback;
+  }
+}
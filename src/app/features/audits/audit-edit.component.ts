@@ -3,36 +3,61 @@
  *
  * Form for creating and editing audits
  * Uses DynamicFormComponent with grid layout and TanStack Query for data fetching
+ * Audit numbers, suppliers and personnel are searched and paged on demand
+ * Server validation errors are mapped back onto the form fields
+ * The end date is checked against the start date as the user edits either one,
+ * and new audit numbers are checked for uniqueness when picked
  */
 
 import { Component, signal, inject, computed, effect } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { injectQuery } from '@tanstack/angular-query-experimental';
+import { injectQuery, injectMutation, injectQueryClient } from '@tanstack/angular-query-experimental';
 import { z } from 'zod';
 
 import { DynamicFormComponent, DynamicFormConfig } from '../../shared/components/dynamic-form';
-import { auditsGetAuditByIdOptions, referenceAuditsGetReferenceAuditsOptions, referenceSuppliersGetAllSuppliersOptions } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
-import type { SelectOption } from '../../shared/components/searchable-select';
-import type { AuditResponse, PaginatedResponseOfAuditResponse, PaginatedResponseOfSupplierDetailsResponse } from '@/core/api/generated';
+import {
+  auditsCreateAuditMutation,
+  auditsGetAllAuditsQueryKey,
+  auditsGetAuditByIdOptions,
+  auditsGetAuditByIdQueryKey,
+  auditsUpdateAuditMutation,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { ValidationError, toAppError } from '@/core/errors/app-error';
+import {
+  personnelOptionSource,
+  referenceAuditOptionSource,
+  supplierOptionSource,
+} from '../../shared/utils/option-sources';
+import { auditsSearchAudits } from '@/core/api/generated';
+
+/**
+ * Check that the end date does not precede the start date (date inputs compare as yyyy-MM-dd strings)
+ */
+function isDateRangeOrdered(audit: { startDate?: string; endDate?: string }): boolean {
+  return !audit.startDate || !audit.endDate || audit.endDate >= audit.startDate;
+}
+
+const dateRangeError = { message: 'End date must be after start date', path: ['endDate'] };
 
 // Audit form schema (for creation)
-const auditSchema = z.object({
+const auditObjectSchema = z.object({
   auditNumber: z.string().length(5, 'Audit number must be exactly 5 characters').describe('Audit Number'),
   supplierNumber: z.string().length(4, 'Supplier number must be exactly 4 characters').describe('Supplier Number'),
   leadUtilityCode: z.string().length(3, 'Lead utility code must be exactly 3 characters').describe('Lead Utility Code'),
   auditTypeId: z.number().int().positive('Audit type is required').describe('Audit Type ID'),
-  fkPerNumb: z.number().int().nullable().optional().describe('FK Per Number'),
+  fkPerNumb: z.string().optional().describe('Lead Auditor'),
   contactPersonEmail: z.string().email('Invalid email').describe('Contact Person Email|email'),
   alternateContact: z.string().email('Invalid email').describe('Alternate Contact Email|email'),
   startDate: z.string().optional().describe('Start Date|date'),
   endDate: z.string().optional().describe('End Date|date'),
 });
+const auditSchema = auditObjectSchema.refine(isDateRangeOrdered, dateRangeError);
 
 // Audit update schema (for editing)
-const auditUpdateSchema = z.object({
+const auditUpdateObjectSchema = z.object({
   leadUtilityCode: z.string().length(3, 'Lead utility code must be exactly 3 characters').describe('Lead Utility Code'),
-  fkPerNumb: z.number().int().nullable().optional().describe('FK Per Number'),
+  fkPerNumb: z.string().optional().describe('Lead Auditor'),
   contactPersonEmail: z.string().email('Invalid email').describe('Contact Person Email|email'),
   alternateContact: z.string().email('Invalid email').describe('Alternate Contact Email|email'),
   startDate: z.string().optional().describe('Start Date|date'),
@@ -40,10 +65,25 @@ const auditUpdateSchema = z.object({
   dateNotified: z.string().optional().describe('Date Notified|date'),
   updatedBy: z.string().min(1, 'Updated by is required').describe('Updated By'),
 });
+const auditUpdateSchema = auditUpdateObjectSchema.refine(isDateRangeOrdered, dateRangeError);
 
 type AuditFormData = z.infer<typeof auditSchema>;
 type AuditUpdateFormData = z.infer<typeof auditUpdateSchema>;
 
+/**
+ * Convert a date input value (yyyy-MM-dd) to a Date for the API
+ */
+function toDate(value: string | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Convert a personnel select value to the personnel number for the API
+ */
+function toPersonnelNumber(value: string | undefined): number | null {
+  return value ? Number(value) : null;
+}
+
 @Component({
   selector: 'app-audit-edit',
   standalone: true,
@@ -92,8 +132,10 @@ type AuditUpdateFormData = z.infer<typeof auditUpdateSchema>;
       <div *ngIf="!loading() && !isEditMode()" class="card bg-base-100 shadow-xl">
         <div class="card-body">
           <app-dynamic-form
-            [config]="createFormConfig()"
+            [config]="createFormConfig"
             [initialData]="initialData()"
+            [serverErrors]="serverErrors()"
+            [loading]="saving()"
             (formSubmit)="onSubmit($event)"
             (formCancel)="goBack()"
           />
@@ -106,6 +148,8 @@ type AuditUpdateFormData = z.infer<typeof auditUpdateSchema>;
           <app-dynamic-form
             [config]="updateFormConfig"
             [initialData]="initialData()"
+            [serverErrors]="serverErrors()"
+            [loading]="saving()"
             (formSubmit)="onSubmit($event)"
             (formCancel)="goBack()"
           />
@@ -127,6 +171,7 @@ type AuditUpdateFormData = z.infer<typeof auditUpdateSchema>;
 export class AuditEditComponent {
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
+  private readonly queryClient = injectQueryClient();
 
   // Get audit ID from route
   private readonly auditId = signal<number | null>(null);
@@ -134,38 +179,41 @@ export class AuditEditComponent {
   // TanStack Query for audit data
   private auditQuery = injectQuery(() => auditsGetAuditByIdOptions({ path: { id: this.auditId() || 0 } }));
 
-  // TanStack Query for NUPIC reference audit numbers (for searchable select)
-  private referenceAuditsQuery = injectQuery(() => referenceAuditsGetReferenceAuditsOptions({ query: { pageSize: 1000 } }));
+  // Searchable select options, loaded page by page as the user searches and scrolls
+  private readonly auditNumberOptions = referenceAuditOptionSource(this.queryClient);
+  private readonly supplierNumberOptions = supplierOptionSource(this.queryClient);
+  private readonly personnelOptions = personnelOptionSource(this.queryClient);
+
+  /**
+   * TanStack Mutations for saving the audit
+   * Errors are shown on the form rather than as a global toast
+   */
+  private createMutation = injectMutation(() => ({
+    ...auditsCreateAuditMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: () => this.onSaved('Audit created successfully'),
+  }));
 
-  // TanStack Query for supplier numbers (for searchable select)
-  private suppliersListQuery = injectQuery(() => referenceSuppliersGetAllSuppliersOptions());
+  private updateMutation = injectMutation(() => ({
+    ...auditsUpdateAuditMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: () => this.onSaved('Audit updated successfully'),
+  }));
 
-  // Computed state from query
+  // Computed state from queries and mutations
   loading = computed(() => this.auditQuery.isLoading());
-  error = computed(() => this.auditQuery.error()?.message || null);
-
-  // Map NUPIC reference audit data to SelectOption format
-  auditNumberOptions = computed((): SelectOption[] => {
-    const audits = this.referenceAuditsQuery.data() as PaginatedResponseOfAuditResponse | undefined;
-    if (!audits || !Array.isArray(audits.items)) return [];
-    return audits.items
-      .filter((audit: AuditResponse) => audit.auditNumber)
-      .map((audit: AuditResponse) => ({
-        label: `${audit.auditNumber} - ${audit.supplierNumber || 'N/A'}`,
-        value: audit.auditNumber!
-      }));
-  });
+  saving = computed(() => this.createMutation.isPending() || this.updateMutation.isPending());
+  private saveError = computed(() => (this.isEditMode() ? this.updateMutation.error() : this.createMutation.error()));
 
-  // Map supplier data to SelectOption format
-  supplierNumberOptions = computed((): SelectOption[] => {
-    const suppliers = this.suppliersListQuery.data() as PaginatedResponseOfSupplierDetailsResponse | undefined;
-    if (!suppliers || !Array.isArray(suppliers.items)) return [];
-    return suppliers.items
-      .filter(supplier => supplier.supplierNumber)
-      .map(supplier => ({
-        label: `${supplier.supplierNumber} - ${supplier.supplierName || 'N/A'}`,
-        value: supplier.supplierNumber!
-      }));
+  // Per-field errors go to the form; anything else is shown in the error alert
+  serverErrors = computed(() => {
+    const error = this.saveError();
+    return error instanceof ValidationError ? error.errors : null;
+  });
+  error = computed(() => {
+    const saveError = this.saveError();
+    const saveMessage = saveError && !(saveError instanceof ValidationError) ? toAppError(saveError).message : null;
+    return this.auditQuery.error()?.message || saveMessage || null;
   });
 
   // Form state
@@ -178,7 +226,7 @@ export class AuditEditComponent {
 
     return {
       leadUtilityCode: audit.leadUtilityCode,
-      fkPerNumb: audit.fkPerNumb,
+      fkPerNumb: audit.fkPerNumb != null ? String(audit.fkPerNumb) : undefined,
       contactPersonEmail: audit.contactPersonEmail,
       alternateContact: audit.alternateContact,
       startDate: audit.startDate ? (audit.startDate instanceof Date ? audit.startDate.toISOString().split('T')[0] : audit.startDate) : undefined,
@@ -189,7 +237,7 @@ export class AuditEditComponent {
   });
 
   // Form configuration for creating new audit
-  createFormConfig = computed((): DynamicFormConfig<typeof auditSchema.shape> => ({
+  createFormConfig: DynamicFormConfig<typeof auditObjectSchema.shape> = {
     schema: auditSchema,
     layout: 'grid',
     columns: 2,
@@ -197,20 +245,24 @@ export class AuditEditComponent {
       auditNumber: {
         colSpan: 1,
         type: 'searchable-select',
-        options: this.auditNumberOptions(),
-        loading: this.referenceAuditsQuery.isLoading(),
-        placeholder: 'Search audit number...'
+        optionSource: this.auditNumberOptions,
+        placeholder: 'Search audit number...',
+        asyncValidators: [(auditNumber, signal) => this.checkAuditNumber(auditNumber, signal)],
       },
       supplierNumber: {
         colSpan: 1,
         type: 'searchable-select',
-        options: this.supplierNumberOptions(),
-        loading: this.suppliersListQuery.isLoading(),
-        placeholder: 'Search supplier...'
+        optionSource: this.supplierNumberOptions,
+        placeholder: 'Search supplier...',
       },
       leadUtilityCode: { colSpan: 1 },
       auditTypeId: { colSpan: 1 },
-      fkPerNumb: { colSpan: 1 },
+      fkPerNumb: {
+        colSpan: 1,
+        type: 'searchable-select',
+        optionSource: this.personnelOptions,
+        placeholder: 'Search personnel...',
+      },
       contactPersonEmail: { colSpan: 2 },
       alternateContact: { colSpan: 2 },
       startDate: { colSpan: 1 },
@@ -218,16 +270,21 @@ export class AuditEditComponent {
     },
     submitLabel: 'Create Audit',
     showCancel: true,
-  }));
+  };
 
   // Form configuration for updating existing audit
-  updateFormConfig: DynamicFormConfig<typeof auditUpdateSchema.shape> = {
+  updateFormConfig: DynamicFormConfig<typeof auditUpdateObjectSchema.shape> = {
     schema: auditUpdateSchema,
     layout: 'grid',
     columns: 2,
     fields: {
       leadUtilityCode: { colSpan: 1 },
-      fkPerNumb: { colSpan: 1 },
+      fkPerNumb: {
+        colSpan: 1,
+        type: 'searchable-select',
+        optionSource: this.personnelOptions,
+        placeholder: 'Search personnel...',
+      },
       contactPersonEmail: { colSpan: 2 },
       alternateContact: { colSpan: 2 },
       startDate: { colSpan: 1 },
@@ -253,16 +310,55 @@ export class AuditEditComponent {
    * Handle form submission
    */
   onSubmit(data: AuditFormData | AuditUpdateFormData): void {
-    console.log('Audit form submitted:', data);
+    const id = this.auditId();
 
-    // TODO: Implement actual save logic
-    // Use createAuditMutation() or updateAuditMutation()
-
-    if (this.isEditMode() && this.auditId()) {
-      this.successMessage.set('Audit updated successfully');
+    if (this.isEditMode() && id) {
+      const form = data as AuditUpdateFormData;
+      this.updateMutation.mutate({
+        path: { id },
+        body: {
+          ...form,
+          fkPerNumb: toPersonnelNumber(form.fkPerNumb),
+          startDate: toDate(form.startDate),
+          endDate: toDate(form.endDate),
+          dateNotified: toDate(form.dateNotified) ?? undefined,
+        },
+      });
     } else {
-      this.successMessage.set('Audit created successfully');
+      const form = data as AuditFormData;
+      this.createMutation.mutate({
+        body: {
+          ...form,
+          fkPerNumb: toPersonnelNumber(form.fkPerNumb),
+          startDate: toDate(form.startDate),
+          endDate: toDate(form.endDate),
+        },
+      });
     }
+  }
+
+  /**
+   * Check that the audit number is not used by an audit in the app yet
+   * Every number in the picker is known to NUPIC, so check against the app's audits instead.
+   * The search matches partial numbers, so look for an exact match in its results.
+   */
+  private async checkAuditNumber(auditNumber: string, signal: AbortSignal): Promise<string | null> {
+    const { data } = await auditsSearchAudits({ query: { auditNumber }, signal });
+    const taken = data?.some((audit) => audit.auditNumber === auditNumber);
+    return taken ? `Audit number ${auditNumber} already exists` : null;
+  }
+
+  /**
+   * Refresh cached audits, show the success message and return to the list
+   */
+  private onSaved(message: string): void {
+    this.queryClient.invalidateQueries({ queryKey: auditsGetAllAuditsQueryKey() });
+    const id = this.auditId();
+    if (id) {
+      this.queryClient.invalidateQueries({ queryKey: auditsGetAuditByIdQueryKey({ path: { id } }) });
+    }
+
+    this.successMessage.set(message);
 
     // Navigate back after 2 seconds
     setTimeout(() => {
@@ -0,0 +1,702 @@
+/**
+ * Audit Files Component (TanStack Query)
+ *
+ * Per-audit file manager
+ * Demonstrates:
+ * - FileMetadataResponse rows in a DataTableComponent
+ * - Column filters (status/phase text, upload and review date ranges)
+ * - Drag-and-drop multi-file upload with per-file progress
+ * - Phase filter (audit files vs. phase files)
+ * - Base64 download honoring contentType and inline
+ * - Review and delete actions as TanStack Mutations
+ * - Inline editing of file name and sort order (validated, saved optimistically)
+ */
+
+import { Component, signal, inject, computed } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { injectQuery, injectMutation, injectQueryClient } from '@tanstack/angular-query-experimental';
+import { z } from 'zod';
+
+import { DataTableComponent } from '../../shared/components/data-table/data-table.component';
+import { TableConfig, TableColumn, TableAction } from '../../shared/components/data-table/data-table.types';
+import { DialogComponent, DialogTitleDirective, DialogContentDirective, DialogActionsDirective } from '../../ui/dialog';
+import { createUploadProgressFetch, downloadBase64File, formatFileSize } from '../../shared/utils/file.utils';
+import { generateId } from '../../shared/utils/common.utils';
+import { AppRoles } from '@/core/auth/auth.types';
+import type { FileMetadataResponse, ReviewFileRequest, UpdateFileMetadataRequest } from '@/core/api/generated';
+import {
+  auditFilesDeleteFileMutation,
+  auditFilesDownloadFileOptions,
+  auditFilesGetAuditFilesOptions,
+  auditFilesGetAuditFilesQueryKey,
+  auditFilesGetPhaseFilesOptions,
+  auditFilesGetPhaseFilesQueryKey,
+  auditFilesReviewFileMutation,
+  auditFilesUpdateFileMetadataMutation,
+  auditFilesUploadFilesMutation,
+  phasesGetAuditPhasesOptions,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { toAppError } from '@/core/errors/app-error';
+
+type UploadStatus = 'uploading' | 'done' | 'error';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  progress: number;
+  status: UploadStatus;
+  error?: string;
+}
+
+@Component({
+  selector: 'app-audit-files',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    DataTableComponent,
+    DialogComponent,
+    DialogTitleDirective,
+    DialogContentDirective,
+    DialogActionsDirective,
+  ],
+  template: `
+    <div class="container mx-auto px-4 py-8">
+      <!-- Header -->
+      <div class="mb-6">
+        <div class="flex items-center gap-4 mb-2">
+          <button type="button" (click)="goBack()" class="btn btn-ghost btn-sm gap-2">
+            <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Audits
+          </button>
+        </div>
+        <div class="flex items-center justify-between gap-4">
+          <div>
+            <h1 class="text-3xl font-bold text-base-content">Audit Files</h1>
+            <p class="mt-2 text-base-content/60">Upload, review and download audit documents</p>
+          </div>
+          <div class="flex gap-2">
+            <button type="button" class="btn btn-outline" (click)="goToBookmarks()">Bookmarks</button>
+            <button type="button" class="btn btn-primary" (click)="goToMerge()">Merge Documents</button>
+          </div>
+        </div>
+      </div>
+
+      <!-- Phase filter -->
+      <div class="mb-4 flex items-center gap-3">
+        <label for="phase-filter" class="text-sm font-medium text-base-content/70">Phase</label>
+        <select
+          id="phase-filter"
+          class="select select-bordered select-sm w-64"
+          [ngModel]="selectedPhaseId()"
+          (ngModelChange)="selectedPhaseId.set($event)"
+        >
+          <option [ngValue]="null">All phases</option>
+          @for (phase of phases(); track phase.id) {
+            <option [ngValue]="phase.id">{{ phase.phaseName || phase.phaseCode }}</option>
+          }
+        </select>
+      </div>
+
+      <!-- Drop zone -->
+      <div
+        class="mb-6 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors"
+        [ngClass]="isDragging() ? 'border-primary bg-primary/5' : 'border-base-300'"
+        (dragover)="onDragOver($event)"
+        (dragleave)="onDragLeave($event)"
+        (drop)="onDrop($event)"
+      >
+        <svg class="h-10 w-10 text-base-content/40" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+        </svg>
+        <p class="text-sm text-base-content/70">
+          Drag and drop files here, or
+          <label class="link link-primary cursor-pointer">
+            browse
+            <input type="file" class="hidden" multiple (change)="onFileInputChange($event)" />
+          </label>
+        </p>
+        @if (selectedPhaseName()) {
+          <p class="text-xs text-base-content/50">Files will be attached to {{ selectedPhaseName() }}</p>
+        }
+      </div>
+
+      <!-- Upload progress -->
+      @if (uploads().length > 0) {
+        <div class="card bg-base-100 shadow mb-6">
+          <div class="card-body p-4">
+            <div class="flex items-center justify-between">
+              <h2 class="font-semibold">Uploads</h2>
+              <button type="button" class="btn btn-ghost btn-xs" [disabled]="isUploading()" (click)="clearUploads()">
+                Clear
+              </button>
+            </div>
+            <ul class="space-y-2">
+              @for (upload of uploads(); track upload.id) {
+                <li>
+                  <div class="flex items-center justify-between text-sm">
+                    <span class="truncate">{{ upload.file.name }} ({{ formatSize(upload.file.size) }})</span>
+                    <span
+                      [class.text-success]="upload.status === 'done'"
+                      [class.text-error]="upload.status === 'error'"
+                    >
+                      @switch (upload.status) {
+                        @case ('done') { Uploaded }
+                        @case ('error') { {{ upload.error || 'Failed' }} }
+                        @default { {{ upload.progress }}% }
+                      }
+                    </span>
+                  </div>
+                  <progress
+                    class="progress w-full"
+                    [class.progress-primary]="upload.status === 'uploading'"
+                    [class.progress-success]="upload.status === 'done'"
+                    [class.progress-error]="upload.status === 'error'"
+                    [value]="upload.progress"
+                    max="100"
+                  ></progress>
+                </li>
+              }
+            </ul>
+          </div>
+        </div>
+      }
+
+      <!-- Error message -->
+      <div *ngIf="error()" class="alert alert-error mb-4">
+        <span>{{ error() }}</span>
+      </div>
+
+      <!-- Data Table -->
+      <app-data-table
+        [data]="files()"
+        [config]="tableConfig()"
+        [loading]="loading()"
+      />
+
+      <!-- Review Dialog -->
+      <app-dialog [(open)]="reviewDialogOpen" [closeOnBackdrop]="!reviewFileMutation.isPending()">
+        <div class="p-6">
+          <h2 dialog-title class="text-xl font-semibold text-base-content">
+            Review {{ fileToReview()?.fileName }}
+          </h2>
+          <div dialog-content class="space-y-4">
+            <label class="form-control w-full">
+              <span class="label-text mb-1">Comments</span>
+              <textarea
+                class="textarea textarea-bordered w-full"
+                rows="4"
+                placeholder="Optional review comments"
+                [(ngModel)]="reviewRequest.comments"
+                [disabled]="reviewFileMutation.isPending()"
+              ></textarea>
+            </label>
+            <label class="label cursor-pointer justify-start gap-3">
+              <input
+                type="checkbox"
+                class="toggle toggle-primary"
+                [(ngModel)]="reviewRequest.sendNotification"
+                [disabled]="reviewFileMutation.isPending()"
+              />
+              <span class="label-text">Send notification</span>
+            </label>
+          </div>
+          <div dialog-actions>
+            <button type="button" class="btn btn-ghost" [disabled]="reviewFileMutation.isPending()" (click)="closeReviewDialog()">
+              Cancel
+            </button>
+            <button type="button" class="btn btn-primary" [disabled]="reviewFileMutation.isPending()" (click)="onReviewFile()">
+              @if (reviewFileMutation.isPending()) {
+                <span class="loading loading-spinner loading-sm"></span>
+              }
+              Mark Reviewed
+            </button>
+          </div>
+        </div>
+      </app-dialog>
+
+      <!-- Delete Dialog -->
+      <app-dialog [(open)]="deleteDialogOpen" [closeOnBackdrop]="!deleteFileMutation.isPending()">
+        <div class="p-6">
+          <h2 dialog-title class="text-xl font-semibold text-base-content">Delete File</h2>
+          <div dialog-content>
+            <p>Delete <strong>{{ fileToDelete()?.fileName }}</strong>? This cannot be undone.</p>
+          </div>
+          <div dialog-actions>
+            <button type="button" class="btn btn-ghost" [disabled]="deleteFileMutation.isPending()" (click)="closeDeleteDialog()">
+              Cancel
+            </button>
+            <button type="button" class="btn btn-error" [disabled]="deleteFileMutation.isPending()" (click)="onDeleteFile()">
+              @if (deleteFileMutation.isPending()) {
+                <span class="loading loading-spinner loading-sm"></span>
+              }
+              Delete
+            </button>
+          </div>
+        </div>
+      </app-dialog>
+
+      <!-- Success message -->
+      <div *ngIf="successMessage()" class="toast toast-end">
+        <div class="alert alert-success">
+          <span>{{ successMessage() }}</span>
+        </div>
+      </div>
+    </div>
+  `,
+})
+export class AuditFilesComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly queryClient = injectQueryClient();
+
+  // Get audit ID from route
+  readonly auditId = signal(Number(this.route.snapshot.paramMap.get('id')) || 0);
+
+  // Phase filter (null = all audit files)
+  selectedPhaseId = signal<number | null>(null);
+
+  // TanStack Query for phase assignments (filter options)
+  private phasesQuery = injectQuery(() => phasesGetAuditPhasesOptions({ path: { auditId: this.auditId() } }));
+
+  // TanStack Query for all audit files
+  private auditFilesQuery = injectQuery(() => ({
+    ...auditFilesGetAuditFilesOptions({ path: { auditId: this.auditId() } }),
+    enabled: this.selectedPhaseId() === null,
+  }));
+
+  // TanStack Query for files of the selected phase
+  private phaseFilesQuery = injectQuery(() => ({
+    ...auditFilesGetPhaseFilesOptions({
+      path: { auditId: this.auditId(), phaseAssignmentId: this.selectedPhaseId() ?? 0 },
+    }),
+    enabled: this.selectedPhaseId() !== null,
+  }));
+
+  /**
+   * TanStack Mutation for uploading files (failures are shown on each upload item)
+   */
+  private readonly uploadFilesMutation = injectMutation(() => ({
+    ...auditFilesUploadFilesMutation(),
+    meta: { notifyOnError: false },
+  }));
+
+  /**
+   * TanStack Mutation for reviewing a file
+   */
+  protected readonly reviewFileMutation = injectMutation(() => ({
+    ...auditFilesReviewFileMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (file) => {
+      this.closeReviewDialog();
+      this.showSuccess(`${file.fileName || 'File'} reviewed`);
+    },
+    onSettled: () => this.invalidateFileQueries(),
+  }));
+
+  /**
+   * TanStack Mutation for deleting a file
+   */
+  protected readonly deleteFileMutation = injectMutation(() => ({
+    ...auditFilesDeleteFileMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: () => {
+      const fileName = this.fileToDelete()?.fileName;
+      this.closeDeleteDialog();
+      this.showSuccess(`${fileName || 'File'} deleted`);
+    },
+    onSettled: () => this.invalidateFileQueries(),
+  }));
+
+  /**
+   * TanStack Mutation for inline edits (the table shows the new value while saving)
+   */
+  private readonly updateFileMutation = injectMutation(() => ({
+    ...auditFilesUpdateFileMetadataMutation(),
+    meta: { errorTitle: 'Could not save file' },
+    onSettled: () => this.invalidateFileQueries(),
+  }));
+
+  // Computed state from queries
+  phases = computed(() => this.phasesQuery.data() || []);
+  private activeFilesQuery = computed(() =>
+    this.selectedPhaseId() === null ? this.auditFilesQuery : this.phaseFilesQuery
+  );
+  files = computed(() => this.activeFilesQuery().data() || []);
+  loading = computed(() => this.activeFilesQuery().isLoading());
+  error = computed(() => {
+    const mutationError = this.reviewFileMutation.error() || this.deleteFileMutation.error();
+    return (
+      this.activeFilesQuery().error()?.message ||
+      (mutationError ? toAppError(mutationError).message : null) ||
+      this.downloadError() ||
+      null
+    );
+  });
+
+  selectedPhaseName = computed(() => {
+    const phaseId = this.selectedPhaseId();
+    if (phaseId === null) return null;
+    const phase = this.phases().find((p) => p.id === phaseId);
+    return phase?.phaseName || phase?.phaseCode || null;
+  });
+
+  // Upload state
+  isDragging = signal(false);
+  uploads = signal<UploadItem[]>([]);
+  isUploading = computed(() => this.uploads().some((upload) => upload.status === 'uploading'));
+
+  // Dialog state
+  reviewDialogOpen = false;
+  fileToReview = signal<FileMetadataResponse | null>(null);
+  reviewRequest: ReviewFileRequest = { comments: '', sendNotification: true };
+
+  deleteDialogOpen = false;
+  fileToDelete = signal<FileMetadataResponse | null>(null);
+
+  downloadError = signal<string | null>(null);
+  successMessage = signal<string | null>(null);
+
+  // Table configuration
+  tableConfig = signal<TableConfig<FileMetadataResponse>>({
+    columns: this.getColumns(),
+    actions: this.getActions(),
+    searchable: true,
+    searchPlaceholder: 'Search files...',
+    pageable: true,
+    defaultPageSize: 25,
+    emptyStateMessage: 'No files uploaded yet',
+    loadingMessage: 'Loading files...',
+  });
+
+  /**
+   * Get table columns
+   */
+  private getColumns(): TableColumn<FileMetadataResponse>[] {
+    return [
+      {
+        label: 'File Name',
+        field: 'fileName',
+        sortable: true,
+        editable: {
+          validator: z.string().trim().min(1, 'File name is required').max(255, 'File name is too long'),
+          save: (file, fileName) => this.updateFile(file, { fileName }),
+          permission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
+        },
+      },
+      {
+        label: 'Order',
+        field: 'sortOrder',
+        sortable: true,
+        type: 'number',
+        width: '100px',
+        editable: {
+          validator: z
+            .number({ invalid_type_error: 'Enter a number' })
+            .int('Enter a whole number')
+            .min(0, 'Order cannot be negative')
+            .nullable(),
+          save: (file, sortOrder) => this.updateFile(file, { sortOrder }),
+          permission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
+        },
+      },
+      { label: 'Phase', field: 'phaseName', sortable: true, filterable: true },
+      { label: 'Status', field: 'fileStatusName', sortable: true, filterable: true, width: '120px' },
+      {
+        label: 'Reviewed',
+        field: 'reviewedDate',
+        sortable: true,
+        filterable: true,
+        type: 'date',
+        format: (value, row) =>
+          value ? `${new Date(value).toLocaleDateString()}${row.reviewedBy ? ` by ${row.reviewedBy}` : ''}` : 'Not reviewed',
+      },
+      {
+        label: 'Uploaded',
+        field: 'createdDate',
+        sortable: true,
+        filterable: true,
+        type: 'date',
+        format: (value) => (value ? new Date(value).toLocaleDateString() : 'N/A'),
+      },
+      { label: 'Uploaded By', field: 'createdBy', sortable: true },
+    ];
+  }
+
+  /**
+   * Get table actions
+   */
+  private getActions(): TableAction<FileMetadataResponse>[] {
+    return [
+      {
+        label: 'Download',
+        icon: `<svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>`,
+        handler: (row) => this.onDownload(row),
+        buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-blue-600 focus:outline-none',
+      },
+      {
+        label: 'Review',
+        icon: `<svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>`,
+        handler: (row) => this.openReviewDialog(row),
+        visible: (row) => !row.reviewedDate,
+        permission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
+        buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-green-600 focus:outline-none',
+      },
+      {
+        label: 'Delete',
+        icon: `<svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>`,
+        handler: (row) => this.openDeleteDialog(row),
+        permission: { roles: [AppRoles.Admin] },
+        buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-red-600 focus:outline-none',
+      },
+    ];
+  }
+
+  /**
+   * Save an inline edit of a file's metadata
+   */
+  private updateFile(file: FileMetadataResponse, changes: UpdateFileMetadataRequest): Promise<FileMetadataResponse> {
+    return this.updateFileMutation.mutateAsync({
+      path: { auditId: this.auditId(), fileId: file.id! },
+      body: changes,
+    });
+  }
+
+  /**
+   * Highlight the drop zone while dragging files over it
+   */
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging.set(true);
+  }
+
+  /**
+   * Reset the drop zone highlight
+   */
+  onDragLeave(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging.set(false);
+  }
+
+  /**
+   * Upload dropped files
+   */
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging.set(false);
+    this.uploadFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  /**
+   * Upload files picked through the file input
+   */
+  onFileInputChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.uploadFiles(Array.from(input.files ?? []));
+    input.value = '';
+  }
+
+  /**
+   * Upload each file as its own request so progress can be reported per file
+   */
+  async uploadFiles(files: File[]): Promise<void> {
+    if (files.length === 0) return;
+
+    const items: UploadItem[] = files.map((file) => ({
+      id: generateId('upload'),
+      file,
+      progress: 0,
+      status: 'uploading',
+    }));
+    this.uploads.update((uploads) => [...uploads, ...items]);
+
+    const phaseAssignmentId = this.selectedPhaseId() ?? undefined;
+
+    await Promise.allSettled(
+      items.map(async (item) => {
+        try {
+          await this.uploadFilesMutation.mutateAsync({
+            path: { auditId: this.auditId() },
+            body: { files: [item.file], phaseAssignmentId },
+            fetch: createUploadProgressFetch((progress) => this.updateUpload(item.id, { progress })),
+          });
+          this.updateUpload(item.id, { progress: 100, status: 'done' });
+        } catch (err) {
+          this.updateUpload(item.id, { status: 'error', error: this.getErrorMessage(err) });
+        }
+      })
+    );
+
+    this.invalidateFileQueries();
+  }
+
+  /**
+   * Remove finished uploads from the list
+   */
+  clearUploads(): void {
+    this.uploads.update((uploads) => uploads.filter((upload) => upload.status === 'uploading'));
+  }
+
+  /**
+   * Download a file (or open it in a new tab when the server marks it inline)
+   */
+  async onDownload(file: FileMetadataResponse): Promise<void> {
+    if (!file.id) return;
+    this.downloadError.set(null);
+
+    try {
+      const download = await this.queryClient.fetchQuery({
+        ...auditFilesDownloadFileOptions({ path: { auditId: this.auditId(), fileId: file.id } }),
+        // File content is only needed once, don't keep the payload cached
+        gcTime: 0,
+      });
+      downloadBase64File({
+        ...download,
+        fileName: download.fileName || file.fileName,
+        contentType: download.contentType || file.contentType || undefined,
+      });
+    } catch (err) {
+      this.downloadError.set(`Failed to download ${file.fileName}: ${this.getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Open the review dialog
+   */
+  openReviewDialog(file: FileMetadataResponse): void {
+    this.fileToReview.set(file);
+    this.reviewRequest = { comments: '', sendNotification: true };
+    this.reviewDialogOpen = true;
+  }
+
+  /**
+   * Close the review dialog
+   */
+  closeReviewDialog(): void {
+    this.reviewDialogOpen = false;
+    this.fileToReview.set(null);
+  }
+
+  /**
+   * Mark the selected file as reviewed
+   */
+  onReviewFile(): void {
+    const file = this.fileToReview();
+    if (!file?.id) return;
+
+    this.reviewFileMutation.mutate({
+      path: { auditId: this.auditId(), fileId: file.id },
+      body: {
+        comments: this.reviewRequest.comments?.trim() || undefined,
+        sendNotification: this.reviewRequest.sendNotification,
+      },
+    });
+  }
+
+  /**
+   * Open the delete confirmation dialog
+   */
+  openDeleteDialog(file: FileMetadataResponse): void {
+    this.fileToDelete.set(file);
+    this.deleteDialogOpen = true;
+  }
+
+  /**
+   * Close the delete confirmation dialog
+   */
+  closeDeleteDialog(): void {
+    this.deleteDialogOpen = false;
+    this.fileToDelete.set(null);
+  }
+
+  /**
+   * Delete the selected file
+   */
+  onDeleteFile(): void {
+    const file = this.fileToDelete();
+    if (!file?.id) return;
+
+    this.deleteFileMutation.mutate({ path: { auditId: this.auditId(), fileId: file.id } });
+  }
+
+  /**
+   * Format a file size for the upload list
+   */
+  formatSize(bytes: number): string {
+    return formatFileSize(bytes);
+  }
+
+  /**
+   * Navigate to the merge builder
+   */
+  goToMerge(): void {
+    this.router.navigate(['/audits', this.auditId(), 'merge']);
+  }
+
+  /**
+   * Navigate to the bookmark editor
+   */
+  goToBookmarks(): void {
+    this.router.navigate(['/audits', this.auditId(), 'bookmarks']);
+  }
+
+  /**
+   * Navigate back to audits list
+   */
+  goBack(): void {
+    this.router.navigate(['/audits']);
+  }
+
+  /**
+   * Update a single upload entry
+   */
+  private updateUpload(id: string, changes: Partial<UploadItem>): void {
+    this.uploads.update((uploads) =>
+      uploads.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload))
+    );
+  }
+
+  /**
+   * Refetch the audit and phase file lists
+   */
+  private invalidateFileQueries(): void {
+    const auditId = this.auditId();
+    this.queryClient.invalidateQueries({ queryKey: auditFilesGetAuditFilesQueryKey({ path: { auditId } }) });
+    // The file list of every phase assignment of this audit
+    for (const phase of this.phases()) {
+      if (phase.id == null) continue;
+      this.queryClient.invalidateQueries({
+        queryKey: auditFilesGetPhaseFilesQueryKey({ path: { auditId, phaseAssignmentId: phase.id } }),
+      });
+    }
+  }
+
+  /**
+   * Extract a readable message from an API or network error
+   */
+  private getErrorMessage(err: unknown): string {
+    if (err && typeof err === 'object') {
+      const problem = err as { detail?: string | null; title?: string | null; message?: string };
+      return problem.detail || problem.title || problem.message || 'Request failed';
+    }
+    return typeof err === 'string' ? err : 'Request failed';
+  }
+
+  /**
+   * Show a temporary success toast
+   */
+  private showSuccess(message: string): void {
+    this.successMessage.set(message);
+    setTimeout(() => this.successMessage.set(null), 3000);
+  }
+}
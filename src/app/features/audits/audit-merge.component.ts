@@ -0,0 +1,561 @@
+/**
+ * Audit Merge Component (TanStack Query)
+ *
+ * Document merge builder for audit packages
+ * Demonstrates:
+ * - Merge template selection (MergeTemplateResponse)
+ * - Drag-and-drop file ordering with CDK drag-drop
+ * - Template requiredFields rendered as inputs
+ * - Additional bookmarks entered as tags
+ * - Validate → preview → merge flow with TanStack Mutations
+ */
+
+import { Component, signal, inject, computed, effect, OnDestroy } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { CdkDrag, CdkDragDrop, CdkDropList, moveItemInArray, transferArrayItem } from '@angular/cdk/drag-drop';
+import { injectQuery, injectMutation, injectQueryClient } from '@tanstack/angular-query-experimental';
+
+import { SearchableSelectComponent } from '../../shared/components/searchable-select';
+import { saveBlob } from '../../shared/utils/file.utils';
+import type { FileMetadataResponse, MergeAuditDocumentsRequest, MergeTemplateResponse } from '@/core/api/generated';
+import {
+  auditDocumentMergeGetMergeTemplatesOptions,
+  auditDocumentMergeMergeAuditDocumentsMutation,
+  auditDocumentMergePreviewMergeMutation,
+  auditDocumentMergeValidateMergeRequestMutation,
+  auditFilesGetAuditFilesOptions,
+  auditFilesGetAuditFilesQueryKey,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { toAppError } from '@/core/errors/app-error';
+
+/**
+ * Required template fields that map directly onto MergeAuditDocumentsRequest.
+ * Any other required field name is sent as a bookmark value.
+ */
+const REQUEST_FIELDS = ['customFilename', 'documentType', 'auditDocumentId'] as const;
+type RequestField = (typeof REQUEST_FIELDS)[number];
+
+interface ValidationResult {
+  valid: boolean;
+  messages: string[];
+}
+
+@Component({
+  selector: 'app-audit-merge',
+  standalone: true,
+  imports: [CommonModule, FormsModule, CdkDropList, CdkDrag, SearchableSelectComponent],
+  template: `
+    <div class="container mx-auto px-4 py-8 max-w-6xl">
+      <!-- Header -->
+      <div class="mb-6">
+        <div class="flex items-center gap-4 mb-2">
+          <button type="button" (click)="goBack()" class="btn btn-ghost btn-sm gap-2">
+            <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Audits
+          </button>
+        </div>
+        <h1 class="text-3xl font-bold text-base-content">Merge Documents</h1>
+        <p class="mt-2 text-base-content/60">Build a merged audit package from uploaded files</p>
+      </div>
+
+      <!-- Loading state -->
+      <div *ngIf="loading()" class="flex items-center justify-center py-12">
+        <div class="flex items-center gap-2">
+          <span class="loading loading-spinner loading-md"></span>
+          <span>Loading templates and files...</span>
+        </div>
+      </div>
+
+      <!-- Error state -->
+      <div *ngIf="error()" class="alert alert-error mb-6">
+        <span>{{ error() }}</span>
+      </div>
+
+      @if (!loading()) {
+        <!-- Step 1: Template -->
+        <div class="card bg-base-100 shadow mb-6">
+          <div class="card-body">
+            <h2 class="card-title">1. Template</h2>
+            <select
+              class="select select-bordered w-full max-w-md"
+              [ngModel]="selectedTemplateName()"
+              (ngModelChange)="selectTemplate($event)"
+            >
+              <option [ngValue]="null" disabled>Select a template</option>
+              @for (template of templates(); track template.name) {
+                <option [ngValue]="template.name">{{ template.displayName || template.name }}</option>
+              }
+            </select>
+            @if (selectedTemplate()?.description) {
+              <p class="text-sm text-base-content/60">{{ selectedTemplate()?.description }}</p>
+            }
+          </div>
+        </div>
+
+        <!-- Step 2: Files -->
+        <div class="card bg-base-100 shadow mb-6">
+          <div class="card-body">
+            <h2 class="card-title">2. Files</h2>
+            <p class="text-sm text-base-content/60">Drag files into the merge list and reorder them as they should appear.</p>
+            <div class="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <h3 class="mb-2 font-medium">Available</h3>
+                <ul
+                  cdkDropList
+                  #availableList="cdkDropList"
+                  [cdkDropListData]="availableFiles()"
+                  [cdkDropListConnectedTo]="[mergeList]"
+                  (cdkDropListDropped)="onDrop($event)"
+                  class="min-h-32 space-y-2 rounded-lg border border-dashed border-base-300 p-2"
+                >
+                  @for (file of availableFiles(); track file.id) {
+                    <li cdkDrag [cdkDragData]="file" class="cursor-move rounded bg-base-200 px-3 py-2 text-sm">
+                      {{ file.fileName }}
+                      @if (file.phaseName) {
+                        <span class="text-base-content/50">· {{ file.phaseName }}</span>
+                      }
+                    </li>
+                  } @empty {
+                    <li class="px-3 py-2 text-sm text-base-content/50">No more files</li>
+                  }
+                </ul>
+              </div>
+              <div>
+                <h3 class="mb-2 font-medium">Merge order</h3>
+                <ol
+                  cdkDropList
+                  #mergeList="cdkDropList"
+                  [cdkDropListData]="orderedFiles()"
+                  [cdkDropListConnectedTo]="[availableList]"
+                  (cdkDropListDropped)="onDrop($event)"
+                  class="min-h-32 space-y-2 rounded-lg border border-dashed border-primary p-2"
+                >
+                  @for (file of orderedFiles(); track file.id; let i = $index) {
+                    <li cdkDrag [cdkDragData]="file" class="flex cursor-move items-center gap-2 rounded bg-primary/10 px-3 py-2 text-sm">
+                      <span class="badge badge-primary badge-sm">{{ i + 1 }}</span>
+                      <span class="flex-1 truncate">{{ file.fileName }}</span>
+                    </li>
+                  } @empty {
+                    <li class="px-3 py-2 text-sm text-base-content/50">Drop files here</li>
+                  }
+                </ol>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <!-- Step 3: Template fields -->
+        <div class="card bg-base-100 shadow mb-6">
+          <div class="card-body">
+            <h2 class="card-title">3. Details</h2>
+            <div class="grid grid-cols-1 gap-4 md:grid-cols-2">
+              @for (field of templateFields(); track field) {
+                <label class="form-control w-full">
+                  <span class="label-text mb-1">
+                    {{ getFieldLabel(field) }}
+                    @if (isRequired(field)) {
+                      <span class="text-error">*</span>
+                    }
+                  </span>
+                  <input
+                    class="input input-bordered w-full"
+                    [type]="field === 'auditDocumentId' ? 'number' : 'text'"
+                    [ngModel]="fieldValues()[field] || ''"
+                    (ngModelChange)="setFieldValue(field, $event)"
+                  />
+                </label>
+              }
+            </div>
+            <div class="w-full">
+              <span class="label-text mb-1 block">Additional bookmarks</span>
+              <app-searchable-select
+                [mode]="'tags'"
+                [values]="extraBookmarks()"
+                placeholder="Add a bookmark..."
+                (valuesChange)="extraBookmarks.set($event); resetResults()"
+              />
+            </div>
+            <label class="label cursor-pointer justify-start gap-3">
+              <input
+                type="checkbox"
+                class="checkbox checkbox-primary"
+                [ngModel]="includeBackCover()"
+                (ngModelChange)="includeBackCover.set($event); resetResults()"
+              />
+              <span class="label-text">Include back cover</span>
+            </label>
+          </div>
+        </div>
+
+        <!-- Step 4: Validate, preview, merge -->
+        <div class="card bg-base-100 shadow mb-6">
+          <div class="card-body">
+            <h2 class="card-title">4. Review</h2>
+
+            @if (clientErrors().length > 0) {
+              <ul class="list-disc pl-5 text-sm text-base-content/70">
+                @for (message of clientErrors(); track message) {
+                  <li>{{ message }}</li>
+                }
+              </ul>
+            }
+
+            @if (validationResult(); as result) {
+              <div class="alert" [class.alert-success]="result.valid" [class.alert-error]="!result.valid">
+                <div>
+                  <p class="font-medium">{{ result.valid ? 'Merge request is valid' : 'Merge request is invalid' }}</p>
+                  @for (message of result.messages; track message) {
+                    <p class="text-sm">{{ message }}</p>
+                  }
+                </div>
+              </div>
+            }
+
+            <div class="card-actions justify-end">
+              <button
+                type="button"
+                class="btn btn-outline"
+                [disabled]="clientErrors().length > 0 || isBusy()"
+                (click)="onValidate()"
+              >
+                @if (validateMutation.isPending()) {
+                  <span class="loading loading-spinner loading-sm"></span>
+                }
+                Validate
+              </button>
+              <button
+                type="button"
+                class="btn btn-outline btn-secondary"
+                [disabled]="!isValidated() || isBusy()"
+                (click)="onPreview()"
+              >
+                @if (previewMutation.isPending()) {
+                  <span class="loading loading-spinner loading-sm"></span>
+                }
+                Preview
+              </button>
+              <button
+                type="button"
+                class="btn btn-primary"
+                [disabled]="!isValidated() || isBusy()"
+                (click)="onMerge()"
+              >
+                @if (mergeMutation.isPending()) {
+                  <span class="loading loading-spinner loading-sm"></span>
+                }
+                Merge
+              </button>
+            </div>
+
+            @if (previewUrl()) {
+              <iframe
+                class="mt-4 h-[600px] w-full rounded border border-base-300"
+                title="Merge preview"
+                [src]="previewUrl()"
+              ></iframe>
+            }
+          </div>
+        </div>
+      }
+
+      <!-- Success message -->
+      <div *ngIf="successMessage()" class="toast toast-end">
+        <div class="alert alert-success">
+          <span>{{ successMessage() }}</span>
+        </div>
+      </div>
+    </div>
+  `,
+})
+export class AuditMergeComponent implements OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly queryClient = injectQueryClient();
+
+  // Get audit ID from route
+  readonly auditId = signal(Number(this.route.snapshot.paramMap.get('id')) || 0);
+
+  // TanStack Query for merge templates
+  private templatesQuery = injectQuery(() => auditDocumentMergeGetMergeTemplatesOptions());
+
+  // TanStack Query for audit files
+  private filesQuery = injectQuery(() => auditFilesGetAuditFilesOptions({ path: { auditId: this.auditId() } }));
+
+  /**
+   * TanStack Mutation for validating the merge request
+   */
+  protected readonly validateMutation = injectMutation(() => ({
+    ...auditDocumentMergeValidateMergeRequestMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (result) => this.validationResult.set(this.parseValidationResult(result)),
+    onError: (err) => this.validationResult.set(this.parseValidationResult(err, false)),
+  }));
+
+  /**
+   * TanStack Mutation for previewing the merged document
+   */
+  protected readonly previewMutation = injectMutation(() => ({
+    ...auditDocumentMergePreviewMergeMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (blob) => this.setPreview(blob),
+  }));
+
+  /**
+   * TanStack Mutation for merging the documents
+   */
+  protected readonly mergeMutation = injectMutation(() => ({
+    ...auditDocumentMergeMergeAuditDocumentsMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (blob) => {
+      saveBlob(blob, this.getMergedFileName());
+      this.showSuccess('Documents merged successfully');
+    },
+    onSettled: () =>
+      this.queryClient.invalidateQueries({
+        queryKey: auditFilesGetAuditFilesQueryKey({ path: { auditId: this.auditId() } }),
+      }),
+  }));
+
+  // Computed state from queries
+  templates = computed(() => this.templatesQuery.data() || []);
+  loading = computed(() => this.templatesQuery.isLoading() || this.filesQuery.isLoading());
+  error = computed(() => {
+    const mutationError = this.previewMutation.error() || this.mergeMutation.error();
+    return (
+      this.templatesQuery.error()?.message ||
+      this.filesQuery.error()?.message ||
+      (mutationError ? toAppError(mutationError).message : null)
+    );
+  });
+
+  // Builder state
+  selectedTemplateName = signal<string | null>(null);
+  orderedFiles = signal<FileMetadataResponse[]>([]);
+  fieldValues = signal<Record<string, string>>({});
+  extraBookmarks = signal<string[]>([]);
+  includeBackCover = signal(false);
+  validationResult = signal<ValidationResult | null>(null);
+  previewObjectUrl = signal<string | null>(null);
+  successMessage = signal<string | null>(null);
+
+  selectedTemplate = computed<MergeTemplateResponse | null>(
+    () => this.templates().find((t) => t.name === this.selectedTemplateName()) || null
+  );
+
+  availableFiles = computed(() => {
+    const selectedIds = new Set(this.orderedFiles().map((file) => file.id));
+    return (this.filesQuery.data() || []).filter((file) => !selectedIds.has(file.id));
+  });
+
+  // Required fields first, then the optional request fields not already listed
+  templateFields = computed(() => {
+    const required = this.selectedTemplate()?.requiredFields || [];
+    return [...required, ...REQUEST_FIELDS.filter((field) => !required.includes(field))];
+  });
+
+  clientErrors = computed(() => {
+    const errors: string[] = [];
+    if (!this.selectedTemplate()) errors.push('Select a merge template');
+    if (this.orderedFiles().length === 0) errors.push('Add at least one file to the merge order');
+    for (const field of this.selectedTemplate()?.requiredFields || []) {
+      if (!this.fieldValues()[field]?.trim()) errors.push(`${this.getFieldLabel(field)} is required`);
+    }
+    return errors;
+  });
+
+  isValidated = computed(() => this.validationResult()?.valid === true);
+
+  isBusy = computed(
+    () => this.validateMutation.isPending() || this.previewMutation.isPending() || this.mergeMutation.isPending()
+  );
+
+  previewUrl = computed<SafeResourceUrl | null>(() => {
+    const url = this.previewObjectUrl();
+    return url ? this.sanitizer.bypassSecurityTrustResourceUrl(url) : null;
+  });
+
+  constructor() {
+    // Preselect the default template once templates are loaded
+    effect(() => {
+      const templates = this.templates();
+      if (!this.selectedTemplateName() && templates.length > 0) {
+        const defaultTemplate = templates.find((t) => t.isDefault) || templates[0];
+        this.selectedTemplateName.set(defaultTemplate.name ?? null);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.setPreview(null);
+  }
+
+  /**
+   * Select a merge template
+   */
+  selectTemplate(name: string | null): void {
+    this.selectedTemplateName.set(name);
+    this.resetResults();
+  }
+
+  /**
+   * Move files between the available and merge lists, or reorder the merge list
+   */
+  onDrop(event: CdkDragDrop<FileMetadataResponse[]>): void {
+    const ordered = [...this.orderedFiles()];
+
+    if (event.previousContainer === event.container) {
+      if (event.container.data !== this.orderedFiles()) return;
+      moveItemInArray(ordered, event.previousIndex, event.currentIndex);
+    } else if (event.previousContainer.data === this.orderedFiles()) {
+      // Dragged back to the available list
+      ordered.splice(event.previousIndex, 1);
+    } else {
+      const available = [...event.previousContainer.data];
+      transferArrayItem(available, ordered, event.previousIndex, event.currentIndex);
+    }
+
+    this.orderedFiles.set(ordered);
+    this.resetResults();
+  }
+
+  /**
+   * Update a template field value
+   */
+  setFieldValue(field: string, value: string | number | null): void {
+    this.fieldValues.update((values) => ({ ...values, [field]: value == null ? '' : String(value) }));
+    this.resetResults();
+  }
+
+  /**
+   * Whether the selected template requires the field
+   */
+  isRequired(field: string): boolean {
+    return this.selectedTemplate()?.requiredFields?.includes(field) ?? false;
+  }
+
+  /**
+   * Turn a camelCase field name into a label
+   */
+  getFieldLabel(field: string): string {
+    return field.replace(/([A-Z])/g, ' $1').replace(/^./, (char) => char.toUpperCase()).trim();
+  }
+
+  /**
+   * Any change to the request invalidates previous validation and preview
+   */
+  resetResults(): void {
+    this.validationResult.set(null);
+    this.setPreview(null);
+  }
+
+  /**
+   * Validate the merge request on the server
+   */
+  onValidate(): void {
+    this.validateMutation.mutate({ body: this.buildRequest() });
+  }
+
+  /**
+   * Render a preview of the merged document
+   */
+  onPreview(): void {
+    this.previewMutation.mutate({ body: this.buildRequest() });
+  }
+
+  /**
+   * Merge the documents and download the result
+   */
+  onMerge(): void {
+    this.mergeMutation.mutate({ body: this.buildRequest() });
+  }
+
+  /**
+   * Navigate back to audits list
+   */
+  goBack(): void {
+    this.router.navigate(['/audits']);
+  }
+
+  /**
+   * Build the merge request from the builder state
+   */
+  private buildRequest(): MergeAuditDocumentsRequest {
+    const values = this.fieldValues();
+    const files = this.orderedFiles();
+    const bookmarks = (this.selectedTemplate()?.requiredFields || [])
+      .filter((field) => !REQUEST_FIELDS.includes(field as RequestField))
+      .map((field) => values[field]?.trim())
+      .filter((value): value is string => !!value)
+      .concat(this.extraBookmarks());
+    const auditDocumentId = Number(values['auditDocumentId']) || files.find((f) => f.auditDocumentId)?.auditDocumentId;
+
+    return {
+      auditDocumentId,
+      fileIds: files.map((file) => file.id!).filter((id) => id != null),
+      customFilename: values['customFilename']?.trim() || null,
+      documentType: values['documentType']?.trim() || null,
+      bookmarks: bookmarks.length > 0 ? bookmarks : null,
+      templateName: this.selectedTemplateName(),
+      includeBackCover: this.includeBackCover(),
+    };
+  }
+
+  /**
+   * Normalize the validate endpoint response (untyped in the API) or a ProblemDetails error
+   */
+  private parseValidationResult(result: unknown, valid = true): ValidationResult {
+    if (!result || typeof result !== 'object') {
+      return { valid, messages: typeof result === 'string' && result ? [result] : [] };
+    }
+
+    const body = result as {
+      isValid?: boolean;
+      valid?: boolean;
+      detail?: string | null;
+      title?: string | null;
+      errors?: string[] | Record<string, string[]>;
+      messages?: string[];
+    };
+    const errors = Array.isArray(body.errors) ? body.errors : Object.values(body.errors || {}).flat();
+    const messages = [...(body.messages || []), ...errors];
+    if (!valid && messages.length === 0) {
+      messages.push(body.detail || body.title || 'Validation failed');
+    }
+
+    return {
+      valid: valid && (body.isValid ?? body.valid ?? errors.length === 0),
+      messages,
+    };
+  }
+
+  /**
+   * Replace the preview object URL, releasing the previous one
+   */
+  private setPreview(blob: Blob | null): void {
+    const previous = this.previewObjectUrl();
+    if (previous) URL.revokeObjectURL(previous);
+    this.previewObjectUrl.set(blob ? URL.createObjectURL(blob) : null);
+  }
+
+  /**
+   * File name for the merged download
+   */
+  private getMergedFileName(): string {
+    const name = this.fieldValues()['customFilename']?.trim() || `audit-${this.auditId()}-merged`;
+    return /\.pdf$/i.test(name) ? name : `${name}.pdf`;
+  }
+
+  /**
+   * Show a temporary success toast
+   */
+  private showSuccess(message: string): void {
+    this.successMessage.set(message);
+    setTimeout(() => this.successMessage.set(null), 3000);
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * Audit Phases Component (TanStack Query)
+ *
+ * Phase workflow screen for a single audit
+ * Demonstrates:
+ * - Phase timeline built from the available phases of the audit type, with their assignments
+ * - Current phase query deciding which phase is in progress
+ * - Start / complete / reactivate actions as TanStack Mutations
+ * - Audit query invalidation after every workflow change
+ * - Complete phase dialog (comments, notification toggle)
+ */
+
+import { Component, signal, inject, computed } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { injectQuery, injectMutation, injectQueryClient } from '@tanstack/angular-query-experimental';
+
+import { DialogComponent, DialogTitleDirective, DialogContentDirective, DialogActionsDirective } from '../../ui/dialog';
+import type { CompletePhaseRequest, PhaseAssignmentResponse } from '@/core/api/generated';
+import {
+  auditsGetAllAuditsQueryKey,
+  auditsGetAuditByIdOptions,
+  auditsGetAuditByIdQueryKey,
+  phasesCompletePhaseMutation,
+  phasesGetAuditPhasesOptions,
+  phasesGetAuditPhasesQueryKey,
+  phasesGetAvailablePhasesOptions,
+  phasesGetCurrentPhaseOptions,
+  phasesGetCurrentPhaseQueryKey,
+  phasesReactivatePhaseMutation,
+  phasesStartPhaseMutation,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { toAppError } from '@/core/errors/app-error';
+
+type PhaseState = 'completed' | 'active' | 'pending';
+
+/**
+ * A phase of the audit type on the timeline, with its assignment once the audit has one
+ */
+interface TimelinePhase {
+  key: string;
+  name: string;
+  assignment: PhaseAssignmentResponse | null;
+  state: PhaseState;
+}
+
+@Component({
+  selector: 'app-audit-phases',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DialogComponent, DialogTitleDirective, DialogContentDirective, DialogActionsDirective],
+  template: `
+    <div class="container mx-auto px-4 py-8 max-w-4xl">
+      <!-- Header -->
+      <div class="mb-6">
+        <div class="flex items-center gap-4 mb-2">
+          <button type="button" (click)="goBack()" class="btn btn-ghost btn-sm gap-2">
+            <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Audits
+          </button>
+        </div>
+        <div class="flex items-center justify-between gap-4">
+          <div>
+            <h1 class="text-3xl font-bold text-base-content">
+              Audit Phases
+              @if (audit()?.auditNumber) {
+                <span class="text-base-content/60">· {{ audit()?.auditNumber }}</span>
+              }
+            </h1>
+            <p class="mt-2 text-base-content/60">Track and advance the audit workflow</p>
+          </div>
+          <button
+            type="button"
+            class="btn btn-primary"
+            [disabled]="!canStartPhase() || isMutating()"
+            (click)="onStartPhase()"
+          >
+            @if (startPhaseMutation.isPending()) {
+              <span class="loading loading-spinner loading-sm"></span>
+            }
+            Start Next Phase
+          </button>
+        </div>
+      </div>
+
+      <!-- Loading state -->
+      <div *ngIf="loading()" class="flex items-center justify-center py-12">
+        <div class="flex items-center gap-2">
+          <span class="loading loading-spinner loading-md"></span>
+          <span>Loading phases...</span>
+        </div>
+      </div>
+
+      <!-- Error state -->
+      <div *ngIf="error()" class="alert alert-error mb-6">
+        <span>{{ error() }}</span>
+      </div>
+
+      <!-- Empty state -->
+      <div *ngIf="!loading() && !error() && timeline().length === 0" class="card bg-base-100 shadow">
+        <div class="card-body items-center text-center">
+          <p class="text-base-content/60">No phases are defined for this audit type.</p>
+        </div>
+      </div>
+
+      <!-- Timeline -->
+      @if (timeline().length > 0) {
+        <ul class="timeline timeline-vertical timeline-compact">
+          @for (phase of timeline(); track phase.key; let first = $first; let last = $last) {
+            <li>
+              @if (!first) {
+                <hr [class.bg-primary]="phase.state !== 'pending'" />
+              }
+              <div class="timeline-middle">
+                <span
+                  class="block h-4 w-4 rounded-full"
+                  [class.bg-success]="phase.state === 'completed'"
+                  [class.bg-primary]="phase.state === 'active'"
+                  [class.bg-base-300]="phase.state === 'pending'"
+                ></span>
+              </div>
+              <div class="timeline-end card bg-base-100 shadow mb-4 w-full">
+                <div class="card-body p-4">
+                  <div class="flex items-start justify-between gap-4">
+                    <div>
+                      <h2 class="card-title text-lg">
+                        {{ phase.name }}
+                        <span class="badge badge-sm" [ngClass]="getStatusBadgeClass(phase.state)">
+                          {{ phase.assignment?.status || phase.state }}
+                        </span>
+                      </h2>
+                      <dl class="mt-2 grid grid-cols-1 gap-1 text-sm text-base-content/70 sm:grid-cols-3">
+                        <div>
+                          <dt class="font-medium">Started</dt>
+                          <dd>{{ formatDate(phase.assignment?.startedDate, 'Not started') }}</dd>
+                        </div>
+                        <div>
+                          <dt class="font-medium">Completed</dt>
+                          <dd>{{ formatDate(phase.assignment?.completedDate, phase.state === 'active' ? 'In progress' : '—') }}</dd>
+                        </div>
+                        <div>
+                          <dt class="font-medium">Completed By</dt>
+                          <dd>{{ phase.assignment?.completedBy || 'N/A' }}</dd>
+                        </div>
+                      </dl>
+                    </div>
+                    <div class="flex shrink-0 gap-2">
+                      @if (phase.state === 'active') {
+                        <button
+                          type="button"
+                          class="btn btn-success btn-sm"
+                          [disabled]="isMutating()"
+                          (click)="openCompleteDialog(phase.assignment!)"
+                        >
+                          Complete
+                        </button>
+                      }
+                      @if (phase.state === 'completed') {
+                        <button
+                          type="button"
+                          class="btn btn-outline btn-sm"
+                          [disabled]="isMutating()"
+                          (click)="onReactivatePhase(phase.assignment!)"
+                        >
+                          Reactivate
+                        </button>
+                      }
+                    </div>
+                  </div>
+                </div>
+              </div>
+              @if (!last) {
+                <hr [class.bg-primary]="phase.state === 'completed'" />
+              }
+            </li>
+          }
+        </ul>
+      }
+
+      <!-- Complete Phase Dialog -->
+      <app-dialog [(open)]="completeDialogOpen" [closeOnBackdrop]="!completePhaseMutation.isPending()">
+        <div class="p-6">
+          <h2 dialog-title class="text-xl font-semibold text-base-content">
+            Complete {{ phaseToComplete()?.phaseName || 'Phase' }}
+          </h2>
+          <div dialog-content class="space-y-4">
+            <label class="form-control w-full">
+              <span class="label-text mb-1">Comments</span>
+              <textarea
+                class="textarea textarea-bordered w-full"
+                rows="4"
+                placeholder="Optional comments for this phase"
+                [(ngModel)]="completeRequest.comments"
+                [disabled]="completePhaseMutation.isPending()"
+              ></textarea>
+            </label>
+            <label class="label cursor-pointer justify-start gap-3">
+              <input
+                type="checkbox"
+                class="toggle toggle-primary"
+                [(ngModel)]="completeRequest.sendNotification"
+                [disabled]="completePhaseMutation.isPending()"
+              />
+              <span class="label-text">Send notification</span>
+            </label>
+          </div>
+          <div dialog-actions>
+            <button
+              type="button"
+              class="btn btn-ghost"
+              [disabled]="completePhaseMutation.isPending()"
+              (click)="closeCompleteDialog()"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              class="btn btn-success"
+              [disabled]="completePhaseMutation.isPending()"
+              (click)="onCompletePhase()"
+            >
+              @if (completePhaseMutation.isPending()) {
+                <span class="loading loading-spinner loading-sm"></span>
+              }
+              Complete Phase
+            </button>
+          </div>
+        </div>
+      </app-dialog>
+
+      <!-- Success message -->
+      <div *ngIf="successMessage()" class="toast toast-end">
+        <div class="alert alert-success">
+          <span>{{ successMessage() }}</span>
+        </div>
+      </div>
+    </div>
+  `,
+})
+export class AuditPhasesComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly queryClient = injectQueryClient();
+
+  // Get audit ID from route
+  readonly auditId = signal(Number(this.route.snapshot.paramMap.get('id')) || 0);
+
+  // TanStack Query for audit header data
+  private auditQuery = injectQuery(() => auditsGetAuditByIdOptions({ path: { id: this.auditId() } }));
+
+  // TanStack Query for phase assignments
+  private phasesQuery = injectQuery(() => phasesGetAuditPhasesOptions({ path: { auditId: this.auditId() } }));
+
+  // TanStack Query for the phases of the audit type, once the audit is loaded
+  private availablePhasesQuery = injectQuery(() => ({
+    ...phasesGetAvailablePhasesOptions({ path: { auditTypeId: this.auditQuery.data()?.auditTypeId ?? 0 } }),
+    enabled: this.auditQuery.data()?.auditTypeId != null,
+  }));
+
+  // TanStack Query for the phase in progress (none between phases)
+  private currentPhaseQuery = injectQuery(() => phasesGetCurrentPhaseOptions({ path: { auditId: this.auditId() } }));
+
+  /**
+   * TanStack Mutation for starting the next phase
+   */
+  protected readonly startPhaseMutation = injectMutation(() => ({
+    ...phasesStartPhaseMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (phase) => this.showSuccess(`${phase.phaseName || 'Phase'} started`),
+    onSettled: () => this.invalidateAuditQueries(),
+  }));
+
+  /**
+   * TanStack Mutation for completing a phase
+   */
+  protected readonly completePhaseMutation = injectMutation(() => ({
+    ...phasesCompletePhaseMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (phase) => {
+      this.closeCompleteDialog();
+      this.showSuccess(`${phase.phaseName || 'Phase'} completed`);
+    },
+    onSettled: () => this.invalidateAuditQueries(),
+  }));
+
+  /**
+   * TanStack Mutation for reactivating a completed phase
+   */
+  protected readonly reactivatePhaseMutation = injectMutation(() => ({
+    ...phasesReactivatePhaseMutation(),
+    meta: { notifyOnError: false },
+    onSuccess: (phase) => this.showSuccess(`${phase.phaseName || 'Phase'} reactivated`),
+    onSettled: () => this.invalidateAuditQueries(),
+  }));
+
+  // Computed state from queries
+  audit = computed(() => this.auditQuery.data());
+  loading = computed(
+    () => this.auditQuery.isLoading() || this.phasesQuery.isLoading() || this.availablePhasesQuery.isLoading()
+  );
+  error = computed(() => {
+    const mutationError =
+      this.startPhaseMutation.error() || this.completePhaseMutation.error() || this.reactivatePhaseMutation.error();
+    return (
+      this.phasesQuery.error()?.message ||
+      this.availablePhasesQuery.error()?.message ||
+      (mutationError ? toAppError(mutationError).message : null)
+    );
+  });
+
+  isMutating = computed(
+    () =>
+      this.startPhaseMutation.isPending() ||
+      this.completePhaseMutation.isPending() ||
+      this.reactivatePhaseMutation.isPending()
+  );
+
+  /**
+   * Available phases of the audit type in order, each with its assignment
+   * Assignments of phases the audit type no longer lists are kept at the end.
+   */
+  timeline = computed((): TimelinePhase[] => {
+    const assignments = this.phasesQuery.data() || [];
+    const currentIds = new Set((this.currentPhaseQuery.data() || []).map((assignment) => assignment.id));
+    const toPhase = (key: string, name: string, assignment: PhaseAssignmentResponse | null): TimelinePhase => ({
+      key,
+      name,
+      assignment,
+      state: this.getPhaseState(assignment, currentIds),
+    });
+
+    const phases = (this.availablePhasesQuery.data() || []).map((phase) =>
+      toPhase(
+        `phase-${phase.id}`,
+        phase.name || phase.code || 'Phase',
+        assignments.find((assignment) => assignment.phaseId === phase.id) ?? null
+      )
+    );
+    const listed = new Set(phases.map((phase) => phase.assignment));
+    const unlisted = assignments
+      .filter((assignment) => !listed.has(assignment))
+      .map((assignment) =>
+        toPhase(`assignment-${assignment.id}`, assignment.phaseName || assignment.phaseCode || 'Phase', assignment)
+      );
+
+    return [...phases, ...unlisted];
+  });
+
+  // A new phase can only be started when no phase is in progress and one is left to start
+  canStartPhase = computed(
+    () =>
+      !this.currentPhaseQuery.isLoading() &&
+      !this.timeline().some((phase) => phase.state === 'active') &&
+      this.timeline().some((phase) => phase.state === 'pending')
+  );
+
+  // Dialog state
+  completeDialogOpen = false;
+  phaseToComplete = signal<PhaseAssignmentResponse | null>(null);
+  completeRequest: CompletePhaseRequest = { comments: '', sendNotification: true };
+
+  successMessage = signal<string | null>(null);
+
+  /**
+   * Get badge class for a phase state
+   */
+  getStatusBadgeClass(state: PhaseState): string {
+    switch (state) {
+      case 'completed':
+        return 'badge-success';
+      case 'active':
+        return 'badge-primary';
+      default:
+        return 'badge-ghost';
+    }
+  }
+
+  /**
+   * Format a phase date
+   */
+  formatDate(value: Date | string | null | undefined, fallback: string): string {
+    return value ? new Date(value).toLocaleDateString() : fallback;
+  }
+
+  /**
+   * Start the next phase of the audit
+   */
+  onStartPhase(): void {
+    this.startPhaseMutation.mutate({ path: { auditId: this.auditId() } });
+  }
+
+  /**
+   * Open the complete phase dialog
+   */
+  openCompleteDialog(phase: PhaseAssignmentResponse): void {
+    this.phaseToComplete.set(phase);
+    this.completeRequest = { comments: '', sendNotification: true };
+    this.completeDialogOpen = true;
+  }
+
+  /**
+   * Close the complete phase dialog
+   */
+  closeCompleteDialog(): void {
+    this.completeDialogOpen = false;
+    this.phaseToComplete.set(null);
+  }
+
+  /**
+   * Complete the selected phase
+   */
+  onCompletePhase(): void {
+    const phase = this.phaseToComplete();
+    if (!phase?.id) return;
+
+    this.completePhaseMutation.mutate({
+      path: { auditId: this.auditId(), phaseAssignmentId: phase.id },
+      body: {
+        comments: this.completeRequest.comments?.trim() || undefined,
+        sendNotification: this.completeRequest.sendNotification,
+      },
+    });
+  }
+
+  /**
+   * Reactivate a completed phase
+   */
+  onReactivatePhase(phase: PhaseAssignmentResponse): void {
+    if (!phase.id) return;
+
+    this.reactivatePhaseMutation.mutate({
+      path: { auditId: this.auditId(), phaseAssignmentId: phase.id },
+    });
+  }
+
+  /**
+   * Navigate back to audits list
+   */
+  goBack(): void {
+    this.router.navigate(['/audits']);
+  }
+
+  /**
+   * Derive the timeline state of a phase from its assignment
+   * The current phase query decides which phase is in progress.
+   */
+  private getPhaseState(assignment: PhaseAssignmentResponse | null, currentIds: Set<number | undefined>): PhaseState {
+    if (!assignment) return 'pending';
+    if (currentIds.has(assignment.id)) return 'active';
+    if (assignment.completedDate) return 'completed';
+    return 'pending';
+  }
+
+  /**
+   * Refetch everything that depends on the audit workflow
+   */
+  private invalidateAuditQueries(): void {
+    const auditId = this.auditId();
+    this.queryClient.invalidateQueries({ queryKey: phasesGetAuditPhasesQueryKey({ path: { auditId } }) });
+    this.queryClient.invalidateQueries({ queryKey: phasesGetCurrentPhaseQueryKey({ path: { auditId } }) });
+    this.queryClient.invalidateQueries({ queryKey: auditsGetAuditByIdQueryKey({ path: { id: auditId } }) });
+    this.queryClient.invalidateQueries({ queryKey: auditsGetAllAuditsQueryKey() });
+  }
+
+  /**
+   * Show a temporary success toast
+   */
+  private showSuccess(message: string): void {
+    this.successMessage.set(message);
+    setTimeout(() => this.successMessage.set(null), 3000);
+  }
+}
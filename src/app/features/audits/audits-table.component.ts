@@ -1,29 +1,60 @@
 /**
  * Audits Table Component (TanStack Query)
  *
- * Table view for audits with sorting, filtering, pagination, and search
+ * Table view for audits with server-side pagination
  * Demonstrates:
  * - TanStack Query for automatic caching and refetching
+ * - Server-side DataTable mode (page changes refetch from the API)
+ * - Table state kept in the URL (bookmarkable, restored on back-navigation)
+ * - CSV / Excel export of the current page or all audits (paged, with progress)
+ * - Customizable columns (show/hide, reorder, resize), saved in local storage
  * - New button (redirects to create page)
  * - Edit action (redirects to edit page)
+ * - Phases action (redirects to phase workflow)
+ * - Files action (redirects to file manager)
  * - Preview action (opens dialog)
+ * - Expandable rows showing the audit phases and file counts (loaded when a row opens)
+ * - Grouping by supplier or lead utility, with the date span of each group
+ * - Bulk delete of selected audits (across pages), reporting partial failures
  */
 
-import { Component, signal, inject, computed } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, signal, inject, computed, viewChild, TemplateRef } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { injectQuery } from '@tanstack/angular-query-experimental';
+import { injectMutation, injectQuery, injectQueryClient, keepPreviousData } from '@tanstack/angular-query-experimental';
 
 import { DataTableComponent } from '../../shared/components/data-table/data-table.component';
+import { AuditDetailsComponent } from './audit-details.component';
 import { PreviewDialogComponent, PreviewField } from '../../shared/components/preview-dialog/preview-dialog.component';
-import { TableConfig, TableColumn, TableAction } from '../../shared/components/data-table/data-table.types';
+import {
+  TableConfig,
+  TableColumn,
+  TableAction,
+  TableBulkAction,
+  TableDetailContext,
+  TableQueryParams,
+  TableSelection,
+} from '../../shared/components/data-table/data-table.types';
+import {
+  createTableQueryParams,
+  fetchAllPages,
+  runBulkOperation,
+  toPaginationState,
+} from '../../shared/components/data-table/data-table.utils';
+import { AppRoles } from '@/core/auth/auth.types';
+import { toAppError } from '@/core/errors/app-error';
+import { NotificationService } from '@/core/notifications/notification.service';
 import type { AuditResponse } from '@/core/api/generated';
-import { auditsGetAllAuditsOptions } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import {
+  auditsDeleteAuditMutation,
+  auditsGetAllAuditsOptions,
+  auditsGetAllAuditsQueryKey,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
 
 @Component({
   selector: 'app-audits-table',
   standalone: true,
-  imports: [CommonModule, DataTableComponent, PreviewDialogComponent],
+  imports: [CommonModule, DataTableComponent, AuditDetailsComponent, PreviewDialogComponent],
   template: `
     <div class="container mx-auto px-4 py-8">
       <div class="mb-6">
@@ -36,9 +67,16 @@ import { auditsGetAllAuditsOptions } from '@/core/api/generated/@tanstack/angula
         [data]="audits()"
         [config]="tableConfig()"
         [loading]="loading()"
+        [pagination]="pagination()"
+        (queryChange)="onQueryChange($event)"
         (rowClick)="onRowClick($event)"
       />
 
+      <!-- Expanded row: phases and file counts -->
+      <ng-template #auditDetail let-audit>
+        <app-audit-details [audit]="audit" />
+      </ng-template>
+
       <!-- Preview Dialog -->
       <app-preview-dialog
         [isOpen]="previewDialogOpen()"
@@ -71,35 +109,73 @@ import { auditsGetAllAuditsOptions } from '@/core/api/generated/@tanstack/angula
 })
 export class AuditsTableComponent {
   private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly queryClient = injectQueryClient();
+  private readonly notifications = inject(NotificationService);
 
-  // TanStack Query for audits data
-  private auditsQuery = injectQuery(() => auditsGetAllAuditsOptions({ query: { pageNumber: 1, pageSize: 100 } }));
-
-  // Computed state from query
-  audits = computed(() => this.auditsQuery.data()?.items || []);
-  loading = computed(() => this.auditsQuery.isLoading());
-  error = computed(() => this.auditsQuery.error()?.message || null);
-
-  // Dialog state
-  previewDialogOpen = signal(false);
-  selectedAudit = signal<AuditResponse | null>(null);
+  private auditDetailTemplate = viewChild<TemplateRef<TableDetailContext<AuditResponse>>>('auditDetail');
 
   // Table configuration
-  tableConfig = signal<TableConfig<AuditResponse>>({
+  tableConfig = computed<TableConfig<AuditResponse>>(() => ({
+    id: 'audits',
     columns: this.getColumns(),
     actions: this.getActions(),
-    searchable: true,
-    searchPlaceholder: 'Search audits by number, supplier, or type...',
+    bulkActions: this.getBulkActions(),
+    // The audits endpoint only supports paging, so search and sort are not offered
+    serverSide: true,
+    urlState: true,
+    customizableColumns: true,
+    exportable: {
+      fileName: 'audits',
+      fetchPage: ({ pageNumber, pageSize }) => this.fetchAuditsPage(pageNumber, pageSize),
+    },
+    searchable: false,
     pageable: true,
     pageSizeOptions: [10, 25, 50, 100],
     defaultPageSize: 25,
-    selectable: false,
+    selectable: true,
+    multiSelect: true,
+    rowId: (audit) => audit.id,
+    detailTemplate: this.auditDetailTemplate(),
     showRowNumbers: true,
     emptyStateMessage: 'No audits found',
     loadingMessage: 'Loading audits...',
     onNew: () => this.onNew(),
     newButtonLabel: 'Add Audit',
-  });
+    newPermission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
+  }));
+
+  // Current server query (seeded from the URL)
+  queryParams = signal<TableQueryParams<AuditResponse>>(
+    createTableQueryParams(this.tableConfig(), this.route.snapshot.queryParamMap)
+  );
+
+  // TanStack Query for audits data (keeps the previous page visible while the next one loads)
+  private auditsQuery = injectQuery(() => ({
+    ...auditsGetAllAuditsOptions({
+      query: {
+        pageNumber: this.queryParams().pageNumber,
+        pageSize: this.queryParams().pageSize,
+      },
+    }),
+    placeholderData: keepPreviousData,
+  }));
+
+  // Failures are reported together once the bulk delete finishes
+  private deleteAuditMutation = injectMutation(() => ({
+    ...auditsDeleteAuditMutation(),
+    meta: { notifyOnError: false },
+  }));
+
+  // Computed state from query
+  audits = computed(() => this.auditsQuery.data()?.items || []);
+  pagination = computed(() => toPaginationState(this.auditsQuery.data()));
+  loading = computed(() => this.auditsQuery.isLoading());
+  error = computed(() => this.auditsQuery.error()?.message || null);
+
+  // Dialog state
+  previewDialogOpen = signal(false);
+  selectedAudit = signal<AuditResponse | null>(null);
 
   // Preview fields
   previewFields = signal<PreviewField[]>([]);
@@ -112,47 +188,43 @@ export class AuditsTableComponent {
       {
         label: 'Audit #',
         field: 'auditNumber',
-        sortable: true,
         width: '120px',
       },
       {
         label: 'Supplier #',
         field: 'supplierNumber',
-        sortable: true,
         width: '120px',
+        groupable: true,
       },
       {
         label: 'Type',
         field: 'auditTypeName',
-        sortable: true,
       },
       {
         label: 'Lead Utility',
         field: 'leadUtilityCode',
-        sortable: true,
         width: '120px',
+        groupable: true,
       },
       {
         label: 'Lead Auditor',
         field: 'leadAuditorName',
-        sortable: true,
       },
       {
         label: 'Start Date',
         field: 'startDate',
-        sortable: true,
+        aggregate: 'min',
         format: (value) => value ? new Date(value).toLocaleDateString() : 'N/A',
       },
       {
         label: 'End Date',
         field: 'endDate',
-        sortable: true,
+        aggregate: 'max',
         format: (value) => value ? new Date(value).toLocaleDateString() : 'N/A',
       },
       {
         label: 'Approved',
         field: 'auditApproved',
-        sortable: true,
         width: '100px',
         format: (value) => (value ? 'Yes' : 'No'),
         columnClass: 'px-6 py-4 text-sm text-center',
@@ -180,11 +252,106 @@ export class AuditsTableComponent {
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
         </svg>`,
         handler: (row) => this.onEdit(row),
+        permission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
         buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-green-600 focus:outline-none',
       },
+      {
+        label: 'Phases',
+        icon: `<svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>`,
+        handler: (row) => this.onPhases(row),
+        permission: { roles: [AppRoles.Admin, AppRoles.Auditor] },
+        buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-purple-600 focus:outline-none',
+      },
+      {
+        label: 'Files',
+        icon: `<svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+        </svg>`,
+        handler: (row) => this.onFiles(row),
+        buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-amber-600 focus:outline-none',
+      },
     ];
   }
 
+  /**
+   * Get bulk actions for selected audits
+   */
+  private getBulkActions(): TableBulkAction<AuditResponse>[] {
+    return [
+      {
+        label: 'Delete',
+        icon: `<svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>`,
+        handler: (selection) => this.onBulkDelete(selection),
+        confirm: ({ count }) => `Delete ${count} ${count === 1 ? 'audit' : 'audits'}? This cannot be undone.`,
+        permission: { roles: [AppRoles.Admin] },
+        buttonClass:
+          'inline-flex items-center gap-1 rounded-md bg-red-600 px-3 py-1 text-sm font-medium text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50',
+      },
+    ];
+  }
+
+  /**
+   * Delete the selected audits, keeping the ones that failed selected
+   */
+  async onBulkDelete(selection: TableSelection<AuditResponse>): Promise<AuditResponse[]> {
+    let audits: AuditResponse[];
+    try {
+      audits = selection.allMatching ? await this.fetchAllAudits() : selection.rows;
+    } catch (err) {
+      this.notifications.notifyError(err, { title: 'Could not load the audits to delete' });
+      return selection.rows;
+    }
+
+    const result = await runBulkOperation(audits, (audit) =>
+      this.deleteAuditMutation.mutateAsync({ path: { id: audit.id! } })
+    );
+
+    this.queryClient.invalidateQueries({ queryKey: auditsGetAllAuditsQueryKey() });
+
+    const deleted = result.succeeded.length;
+    const details = result.failed.map(
+      ({ item, error }) => `Audit ${item.auditNumber ?? item.id}: ${toAppError(error).message}`
+    );
+
+    if (result.failed.length === 0) {
+      this.notifications.success(`${deleted} ${deleted === 1 ? 'audit' : 'audits'} deleted`);
+    } else if (deleted === 0) {
+      this.notifications.error('No audits were deleted', { details });
+    } else {
+      this.notifications.warning(`Deleted ${deleted} of ${audits.length} audits`, { details, duration: 0 });
+    }
+
+    return result.failed.map(({ item }) => item);
+  }
+
+  /**
+   * Load every audit page (used when the selection spans pages that were never loaded)
+   */
+  private fetchAllAudits(): Promise<AuditResponse[]> {
+    return fetchAllPages((pageNumber, pageSize) => this.fetchAuditsPage(pageNumber, pageSize));
+  }
+
+  /**
+   * Load one page of audits, bypassing pages cached before recent changes
+   */
+  private fetchAuditsPage(pageNumber: number, pageSize: number) {
+    return this.queryClient.fetchQuery({
+      ...auditsGetAllAuditsOptions({ query: { pageNumber, pageSize } }),
+      staleTime: 0,
+    });
+  }
+
+  /**
+   * Handle server query changes (page, page size)
+   */
+  onQueryChange(params: TableQueryParams<AuditResponse>): void {
+    this.queryParams.set(params);
+  }
+
   /**
    * Handle new audit button click - Redirects
    */
@@ -199,6 +366,20 @@ export class AuditsTableComponent {
     this.router.navigate(['/audits', audit.id, 'edit']);
   }
 
+  /**
+   * Handle phases action - Redirects to the phase workflow
+   */
+  onPhases(audit: AuditResponse): void {
+    this.router.navigate(['/audits', audit.id, 'phases']);
+  }
+
+  /**
+   * Handle files action - Redirects to the file manager
+   */
+  onFiles(audit: AuditResponse): void {
+    this.router.navigate(['/audits', audit.id, 'files']);
+  }
+
   /**
    * Handle preview action - Opens dialog
    */
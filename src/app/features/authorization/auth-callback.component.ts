@@ -3,6 +3,7 @@ import { Router } from '@angular/router';
 import { Subscription } from 'rxjs';
 import { MsalBroadcastService, MsalService } from '@azure/msal-angular';
 import { EventType } from '@azure/msal-browser';
+import { ReturnUrlService } from '@/core/auth/return-url.service';
 
 @Component({
   selector: 'app-auth-callback',
@@ -20,7 +21,8 @@ export class AuthCallbackComponent implements OnInit, OnDestroy {
   constructor(
     private router: Router,
     private msalService: MsalService,
-    private msalBroadcastService: MsalBroadcastService) { }
+    private msalBroadcastService: MsalBroadcastService,
+    private returnUrlService: ReturnUrlService) { }
 
   ngOnInit() {
     this.isLoading = true;
@@ -28,9 +30,10 @@ export class AuthCallbackComponent implements OnInit, OnDestroy {
       this.msalBroadcastService.msalSubject$.subscribe((result) => {
         if (result.eventType === EventType.LOGIN_SUCCESS) {
           this.isLoading = false;
-          this.router.navigate(['/']);
+          this.returnUrlService.restore();
         } else if (result.eventType === EventType.LOGIN_FAILURE) {
           this.isLoading = false;
+          this.returnUrlService.clear();
           this.router.navigate(['/unauthorized']);
         }
       })
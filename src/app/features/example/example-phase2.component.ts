@@ -9,7 +9,9 @@ import { z } from 'zod';
  * Demonstrates:
  * - Nested objects
  * - Array fields with add/remove
+ * - Multi-select and tag chips for arrays of strings
  * - Conditional field visibility
+ * - Discriminated unions (fields per payout method)
  * - Advanced field types (date, url, tel, password)
  * - Textarea for multiline input
  */
@@ -54,9 +56,28 @@ const employeeFormSchema = z.object({
     zipCode: z.string().min(5).describe('ZIP Code'),
   }).optional().describe('Shipping Address'),
 
+  // Discriminated union: the fields depend on the selected payout method
+  payoutMethod: z.discriminatedUnion('method', [
+    z.object({
+      method: z.literal('bank'),
+      accountHolder: z.string().min(1, 'Account holder is required').describe('Account Holder'),
+      iban: z.string().min(15, 'IBAN is too short').describe('IBAN'),
+    }).describe('Bank Transfer'),
+    z.object({
+      method: z.literal('check'),
+      payee: z.string().min(1, 'Payee is required').describe('Payee'),
+    }).describe('Check'),
+  ]).describe('Payout Method|How the salary is paid'),
+
   // Array of primitive values: Skills
   skills: z.array(z.string().min(1)).min(1).max(10).describe('Skills|Add your professional skills'),
 
+  // Array of enum values: a multi-select with chips
+  languages: z.array(z.enum(['English', 'Dutch', 'French', 'German', 'Spanish'])).min(1).describe('Languages|At least one required'),
+
+  // Array of free-text strings: tag entry (configured below)
+  certifications: z.array(z.string().min(2)).max(5).optional().describe('Certifications|Press Enter after each one'),
+
   // Array of objects: Emergency contacts
   emergencyContacts: z.array(
     z.object({
@@ -160,7 +181,8 @@ type EmployeeFormData = z.infer<typeof employeeFormSchema>;
           <h4 class="font-semibold text-purple-900 mb-2">📋 Array Fields</h4>
           <p class="text-sm text-purple-800">
             "Skills" (primitive array) and "Emergency Contacts" (object array) show dynamic
-            add/remove functionality with min/max constraints.
+            add/remove functionality with min/max constraints. "Languages" and "Certifications"
+            edit string arrays as chips.
           </p>
         </div>
 
@@ -172,6 +194,14 @@ type EmployeeFormData = z.infer<typeof employeeFormSchema>;
           </p>
         </div>
 
+        <div class="bg-rose-50 rounded-lg p-4 border border-rose-200">
+          <h4 class="font-semibold text-rose-900 mb-2">🔁 Discriminated Unions</h4>
+          <p class="text-sm text-rose-800">
+            "Payout Method" swaps in the bank or check fields, with their own validation,
+            when the method changes.
+          </p>
+        </div>
+
         <div class="bg-green-50 rounded-lg p-4 border border-green-200">
           <h4 class="font-semibold text-green-900 mb-2">🎨 Advanced Types</h4>
           <p class="text-sm text-green-800">
@@ -219,6 +249,11 @@ export class ExamplePhase2Component {
       employmentType: {
         placeholder: 'Select employment type',
       },
+      // Free-text tags, with common certifications as suggestions
+      certifications: {
+        type: 'tags',
+        options: ['PMP', 'ISO 9001 Lead Auditor', 'CQA', 'Six Sigma Green Belt'].map((value) => ({ value, label: value })),
+      },
     },
     submitLabel: 'Register Employee',
     showCancel: true,
@@ -263,7 +298,14 @@ export class ExamplePhase2Component {
         zipCode: '94102',
       },
       hasShippingAddress: false,
+      payoutMethod: {
+        method: 'bank',
+        accountHolder: 'John Doe',
+        iban: 'DE89370400440532013000',
+      },
       skills: ['TypeScript', 'Angular', 'TailwindCSS'],
+      languages: ['English', 'Dutch'],
+      certifications: ['PMP'],
       emergencyContacts: [
         {
           name: 'Jane Doe',
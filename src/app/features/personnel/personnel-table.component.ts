@@ -1,17 +1,26 @@
 /**
  * Personnel Table Component (TanStack Query)
+ *
+ * Server-side DataTable with virtual scrolling: the search term is sent to the API and kept
+ * in the URL, further pages load as the user scrolls; rows can be grouped by utility and the
+ * column layout can be customized and is saved in local storage
  */
 
 import { Component, signal, inject, computed } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { injectQuery } from '@tanstack/angular-query-experimental';
+import { injectInfiniteQuery, keepPreviousData } from '@tanstack/angular-query-experimental';
 
 import { DataTableComponent } from '../../shared/components/data-table/data-table.component';
 import { PreviewDialogComponent, PreviewField } from '../../shared/components/preview-dialog/preview-dialog.component';
-import { TableConfig, TableColumn, TableAction } from '../../shared/components/data-table/data-table.types';
-import type { PersonnelResponse } from '@/core/api/generated';
-import { referencePersonnelGetPersonnelOptions } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import { TableConfig, TableQueryParams } from '../../shared/components/data-table/data-table.types';
+import {
+  createTableQueryParams,
+  getNextPageNumber,
+  toPaginationState,
+} from '../../shared/components/data-table/data-table.utils';
+import { referencePersonnelGetPersonnel, type PersonnelResponse } from '@/core/api/generated';
+import { referencePersonnelGetPersonnelQueryKey } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
 
 @Component({
   selector: 'app-personnel-table',
@@ -28,6 +37,11 @@ import { referencePersonnelGetPersonnelOptions } from '@/core/api/generated/@tan
         [data]="personnel()"
         [config]="tableConfig()"
         [loading]="loading()"
+        [pagination]="pagination()"
+        [hasNextPage]="personnelQuery.hasNextPage()"
+        [loadingMore]="personnelQuery.isFetchingNextPage()"
+        (loadMore)="personnelQuery.fetchNextPage()"
+        (queryChange)="queryParams.set($event)"
         (rowClick)="onRowClick($event)"
       />
 
@@ -46,26 +60,22 @@ import { referencePersonnelGetPersonnelOptions } from '@/core/api/generated/@tan
 })
 export class PersonnelTableComponent {
   private readonly router = inject(Router);
-
-  private personnelQuery = injectQuery(() => referencePersonnelGetPersonnelOptions());
-
-  personnel = computed(() => this.personnelQuery.data()?.data?.items || []);
-  loading = computed(() => this.personnelQuery.isLoading());
-  error = computed(() => this.personnelQuery.error()?.message || null);
+  private readonly route = inject(ActivatedRoute);
 
   previewDialogOpen = signal(false);
   selectedPersonnel = signal<PersonnelResponse | null>(null);
 
   tableConfig = signal<TableConfig<PersonnelResponse>>({
+    id: 'personnel',
     columns: [
-      { label: 'Personnel #', field: 'personnelNumber', sortable: true },
-      { label: 'Name', field: 'name', sortable: true },
-      { label: 'Email', field: 'email', sortable: true },
-      { label: 'Member', field: 'memberName', sortable: true },
-      { label: 'Role', field: 'role', sortable: true },
-      { label: 'Utility', field: 'utilityCode', sortable: true },
-      { label: 'Active', field: 'isActive', sortable: true },
-      { label: 'Auditor', field: 'isAuditor', sortable: true },
+      { label: 'Personnel #', field: 'personnelNumber' },
+      { label: 'Name', field: 'name' },
+      { label: 'Email', field: 'email' },
+      { label: 'Member', field: 'memberName' },
+      { label: 'Role', field: 'role' },
+      { label: 'Utility', field: 'utilityCode', groupable: true },
+      { label: 'Active', field: 'isActive' },
+      { label: 'Auditor', field: 'isAuditor' },
     ],
     actions: [
       {
@@ -75,13 +85,47 @@ export class PersonnelTableComponent {
         buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-green-600 focus:outline-none',
       },
     ],
+    serverSide: true,
+    urlState: true,
+    customizableColumns: true,
     searchable: true,
     searchPlaceholder: 'Search personnel...',
-    pageable: true,
+    virtualScroll: true,
     onNew: () => this.router.navigate(['/personnel/new']),
     newButtonLabel: 'Add Personnel',
   });
 
+  queryParams = signal<TableQueryParams<PersonnelResponse>>(
+    createTableQueryParams(this.tableConfig(), this.route.snapshot.queryParamMap)
+  );
+
+  // Pages are appended as the table scrolls; a new search starts again from page 1
+  personnelQuery = injectInfiniteQuery(() => {
+    const query = {
+      SearchTerm: this.queryParams().searchTerm || undefined,
+      PageSize: this.queryParams().pageSize,
+    };
+    return {
+      queryKey: referencePersonnelGetPersonnelQueryKey({ query }).map((key) => ({ ...key, _infinite: true })),
+      queryFn: async ({ pageParam, signal }) => {
+        const { data } = await referencePersonnelGetPersonnel({
+          query: { ...query, PageNumber: pageParam },
+          signal,
+          throwOnError: true,
+        });
+        return data;
+      },
+      initialPageParam: 1,
+      getNextPageParam: (lastPage) => getNextPageNumber(lastPage.data),
+      placeholderData: keepPreviousData,
+    };
+  });
+
+  personnel = computed(() => this.personnelQuery.data()?.pages.flatMap((page) => page.data?.items ?? []) ?? []);
+  pagination = computed(() => toPaginationState(this.personnelQuery.data()?.pages.at(-1)?.data));
+  loading = computed(() => this.personnelQuery.isLoading());
+  error = computed(() => this.personnelQuery.error()?.message || null);
+
   previewFields = signal<PreviewField[]>([]);
 
   onEdit(item: PersonnelResponse): void {
@@ -3,6 +3,7 @@
  *
  * Form for creating and editing suppliers
  * Uses DynamicFormComponent with grid layout and TanStack Query for data fetching
+ * New supplier numbers are checked for uniqueness while typing
  */
 
 import { Component, signal, inject, computed, effect } from '@angular/core';
@@ -12,6 +13,7 @@ import { injectQuery } from '@tanstack/angular-query-experimental';
 import { z } from 'zod';
 
 import { DynamicFormComponent, DynamicFormConfig } from '../../shared/components/dynamic-form';
+import { referenceSuppliersSupplierExistsGet } from '@/core/api/generated';
 import { referenceSuppliersGetSupplierByNumberOptions } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
 
 // Supplier form schema
@@ -139,7 +141,10 @@ export class SupplierEditComponent {
     layout: 'grid',
     columns: 2,
     fields: {
-      supplierNumber: { colSpan: 1 },
+      supplierNumber: {
+        colSpan: 1,
+        asyncValidators: [(supplierNumber, signal) => this.checkSupplierNumber(supplierNumber, signal)],
+      },
       supplierName: { colSpan: 2 },
       city: { colSpan: 1 },
       state: { colSpan: 1 },
@@ -183,6 +188,19 @@ export class SupplierEditComponent {
     }, 2000);
   }
 
+  /**
+   * Check that no other supplier uses the number
+   * The endpoint answers `true`/`false`, or 404 for unknown numbers.
+   */
+  private async checkSupplierNumber(supplierNumber: string, signal: AbortSignal): Promise<string | null> {
+    if (supplierNumber === this.supplierId()) {
+      return null;
+    }
+
+    const { data, response } = await referenceSuppliersSupplierExistsGet({ path: { supplierNumber }, signal });
+    return response.ok && data !== false ? `Supplier ${supplierNumber} already exists` : null;
+  }
+
   /**
    * Navigate back to suppliers list
    */
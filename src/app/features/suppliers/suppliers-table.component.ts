@@ -4,7 +4,10 @@
  * Example usage of DataTableComponent with Suppliers data
  * Demonstrates:
  * - TanStack Query for automatic caching and refetching
- * - Sorting, filtering, pagination, search
+ * - Sorting, filtering (text, number and tri-state status filters), pagination, search
+ * - Table state kept in the URL (restored when coming back from the edit page)
+ * - CSV / Excel export of the filtered and sorted list
+ * - Customizable columns (show/hide, reorder, resize), saved in local storage
  * - New button (redirects to create page)
  * - Edit action (redirects to edit page)
  * - Preview action (opens dialog)
@@ -18,6 +21,7 @@ import { injectQuery } from '@tanstack/angular-query-experimental';
 import { DataTableComponent } from '../../shared/components/data-table/data-table.component';
 import { PreviewDialogComponent, PreviewField } from '../../shared/components/preview-dialog/preview-dialog.component';
 import { TableConfig, TableColumn, TableAction } from '../../shared/components/data-table/data-table.types';
+import { AppRoles } from '@/core/auth/auth.types';
 import type { SupplierDetailsResponse } from '@/core/api/generated';
 import { referenceSuppliersGetAllSuppliersOptions } from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
 
@@ -87,8 +91,12 @@ export class SuppliersTableComponent {
 
   // Table configuration
   tableConfig = signal<TableConfig<SupplierDetailsResponse>>({
+    id: 'suppliers',
     columns: this.getColumns(),
     actions: this.getActions(),
+    urlState: true,
+    customizableColumns: true,
+    exportable: { fileName: 'suppliers' },
     searchable: true,
     searchPlaceholder: 'Search suppliers by name, number, or location...',
     pageable: true,
@@ -101,6 +109,7 @@ export class SuppliersTableComponent {
     tableClass: 'table',
     onNew: () => this.onNew(),
     newButtonLabel: 'Add Supplier',
+    newPermission: { roles: [AppRoles.Admin] },
   });
 
   // Preview fields
@@ -139,6 +148,7 @@ export class SuppliersTableComponent {
         label: 'Location',
         field: 'location',
         sortable: true,
+        filterable: true,
       },
       {
         label: 'Contact',
@@ -156,6 +166,8 @@ export class SuppliersTableComponent {
         label: 'Status',
         field: 'isActive',
         sortable: true,
+        filterable: true,
+        type: 'boolean',
         width: '100px',
         format: (value) => (value ? 'Active' : 'Inactive'),
         columnClass: 'px-6 py-4 text-sm',
@@ -164,6 +176,8 @@ export class SuppliersTableComponent {
         label: 'Audits',
         field: 'auditCount',
         sortable: true,
+        filterable: true,
+        type: 'number',
         width: '80px',
         columnClass: 'px-6 py-4 text-sm text-center',
       },
@@ -191,6 +205,7 @@ export class SuppliersTableComponent {
         </svg>`,
         handler: (row) => this.onEdit(row),
         buttonClass: 'inline-flex items-center p-1 text-gray-600 hover:text-green-600 focus:outline-none',
+        permission: { roles: [AppRoles.Admin] },
       },
     ];
   }
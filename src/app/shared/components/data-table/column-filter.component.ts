@@ -0,0 +1,200 @@
+/**
+ * Column Filter Component
+ *
+ * Header filter popover for a DataTable column:
+ * - Operators matched to the column type (text, number, date, boolean)
+ * - Date range for date columns
+ * - Tri-state (any / yes / no) for boolean columns
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output, signal } from '@angular/core';
+
+import { PopoverComponent } from '../../../ui/popover';
+import { DateRangeFilterValue, FilterOperator, TableColumn, TableFilter } from './data-table.types';
+import { FILTER_OPERATOR_LABELS, FILTER_OPERATORS_BY_TYPE } from './data-table.utils';
+
+@Component({
+  selector: 'app-column-filter',
+  standalone: true,
+  imports: [CommonModule, PopoverComponent],
+  template: `
+    <app-popover [open]="open()" (openChange)="onOpenChange($event)">
+      <button
+        popover-trigger
+        type="button"
+        class="rounded p-0.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        [class.text-blue-600]="!!filter()"
+        [class.text-gray-400]="!filter()"
+        [attr.aria-label]="'Filter ' + column().label"
+        [attr.aria-pressed]="!!filter()"
+      >
+        <svg class="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
+          <path fill-rule="evenodd" d="M3 3a1 1 0 011-1h12a1 1 0 011 1v3a1 1 0 01-.293.707L12 11.414V15a1 1 0 01-.293.707l-2 2A1 1 0 018 17v-5.586L3.293 6.707A1 1 0 013 6V3z" clip-rule="evenodd" />
+        </svg>
+      </button>
+
+      <div popover-content class="w-64 space-y-3 normal-case tracking-normal">
+        <p class="text-sm font-medium text-gray-900">Filter {{ column().label }}</p>
+
+        @switch (type()) {
+          @case ('boolean') {
+            <div class="flex gap-1" role="radiogroup" [attr.aria-label]="column().label">
+              @for (option of booleanOptions; track option.label) {
+                <button
+                  type="button"
+                  role="radio"
+                  class="flex-1 rounded-md border px-2 py-1 text-sm"
+                  [class.border-blue-500]="booleanValue() === option.value"
+                  [class.bg-blue-50]="booleanValue() === option.value"
+                  [class.border-gray-300]="booleanValue() !== option.value"
+                  [attr.aria-checked]="booleanValue() === option.value"
+                  (click)="booleanValue.set(option.value)"
+                >
+                  {{ option.label }}
+                </button>
+              }
+            </div>
+          }
+          @case ('date') {
+            <label class="block text-xs text-gray-600">
+              From
+              <input
+                type="date"
+                class="mt-1 w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                [value]="dateFrom()"
+                [max]="dateTo() || null"
+                (input)="dateFrom.set($any($event.target).value)"
+              />
+            </label>
+            <label class="block text-xs text-gray-600">
+              To
+              <input
+                type="date"
+                class="mt-1 w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                [value]="dateTo()"
+                [min]="dateFrom() || null"
+                (input)="dateTo.set($any($event.target).value)"
+              />
+            </label>
+          }
+          @default {
+            <select
+              class="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              [attr.aria-label]="'Operator'"
+              [value]="operator()"
+              (change)="operator.set($any($event.target).value)"
+            >
+              @for (op of operators(); track op) {
+                <option [value]="op">{{ operatorLabels[op] }}</option>
+              }
+            </select>
+            <input
+              class="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              [type]="type() === 'number' ? 'number' : 'text'"
+              [attr.aria-label]="'Filter value'"
+              [value]="textValue()"
+              (input)="textValue.set($any($event.target).value)"
+              (keydown.enter)="apply()"
+            />
+          }
+        }
+
+        <div class="flex justify-end gap-2 pt-1">
+          <button type="button" class="rounded-md px-3 py-1 text-sm text-gray-700 hover:bg-gray-100" (click)="clear()">
+            Clear
+          </button>
+          <button
+            type="button"
+            class="rounded-md bg-blue-600 px-3 py-1 text-sm text-white hover:bg-blue-700"
+            (click)="apply()"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </app-popover>
+  `,
+})
+export class ColumnFilterComponent<T> {
+  column = input.required<TableColumn<T>>();
+  filter = input<TableFilter<T> | null>(null);
+
+  filterChange = output<TableFilter<T> | null>();
+
+  readonly operatorLabels = FILTER_OPERATOR_LABELS;
+  readonly booleanOptions: Array<{ label: string; value: boolean | null }> = [
+    { label: 'Any', value: null },
+    { label: 'Yes', value: true },
+    { label: 'No', value: false },
+  ];
+
+  open = signal(false);
+
+  // Draft values, copied from the active filter when the popover opens
+  operator = signal<FilterOperator>('contains');
+  textValue = signal('');
+  dateFrom = signal('');
+  dateTo = signal('');
+  booleanValue = signal<boolean | null>(null);
+
+  type = computed(() => this.column().type ?? 'text');
+  operators = computed(() => FILTER_OPERATORS_BY_TYPE[this.type()]);
+
+  /**
+   * Reset the draft from the active filter when opening
+   */
+  onOpenChange(open: boolean): void {
+    this.open.set(open);
+    if (!open) return;
+
+    const filter = this.filter();
+    const value = filter?.value;
+    this.operator.set(filter?.operator ?? this.operators()[0]);
+    this.textValue.set(typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+    this.dateFrom.set((value as DateRangeFilterValue | undefined)?.from ?? '');
+    this.dateTo.set((value as DateRangeFilterValue | undefined)?.to ?? '');
+    this.booleanValue.set(typeof value === 'boolean' ? value : null);
+  }
+
+  /**
+   * Emit the drafted filter (or null when it is empty) and close
+   */
+  apply(): void {
+    this.filterChange.emit(this.buildFilter());
+    this.open.set(false);
+  }
+
+  /**
+   * Remove the column filter and close
+   */
+  clear(): void {
+    this.filterChange.emit(null);
+    this.open.set(false);
+  }
+
+  private buildFilter(): TableFilter<T> | null {
+    const field = this.column().field;
+
+    switch (this.type()) {
+      case 'boolean': {
+        const value = this.booleanValue();
+        return value === null ? null : { field, operator: 'equals', value };
+      }
+      case 'date': {
+        const from = this.dateFrom() || undefined;
+        const to = this.dateTo() || undefined;
+        return from || to ? { field, operator: 'between', value: { from, to } } : null;
+      }
+      case 'number': {
+        const text = this.textValue().trim();
+        const value = Number(text);
+        return text && !Number.isNaN(value) ? { field, operator: this.operator(), value } : null;
+      }
+      default: {
+        const value = this.textValue().trim();
+        return value ? { field, operator: this.operator(), value } : null;
+      }
+    }
+  }
+}
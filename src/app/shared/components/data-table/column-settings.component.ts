@@ -0,0 +1,118 @@
+/**
+ * Column Settings Component
+ *
+ * "Columns" popover for a DataTable with customizable columns:
+ * - Show / hide columns
+ * - Reorder by dragging or with the move buttons (keyboard friendly)
+ * - Reset to the config-defined layout
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output, signal } from '@angular/core';
+import { CdkDrag, CdkDragDrop, CdkDragHandle, CdkDropList } from '@angular/cdk/drag-drop';
+
+import { PopoverComponent } from '../../../ui/popover';
+import { TableColumn } from './data-table.types';
+
+@Component({
+  selector: 'app-column-settings',
+  standalone: true,
+  imports: [CommonModule, PopoverComponent, CdkDropList, CdkDrag, CdkDragHandle],
+  template: `
+    <app-popover [open]="open()" (openChange)="open.set($event)">
+      <button
+        popover-trigger
+        type="button"
+        class="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      >
+        <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+        Columns
+      </button>
+
+      <div popover-content class="w-72 space-y-3">
+        <p class="text-sm font-medium text-gray-900">Columns</p>
+
+        <ul cdkDropList (cdkDropListDropped)="onDrop($event)" class="space-y-1" aria-label="Columns">
+          @for (column of columns(); track column.field; let i = $index; let last = $last) {
+            <li cdkDrag class="flex items-center gap-2 rounded-md bg-white px-1 py-1 text-sm">
+              <span cdkDragHandle class="cursor-move text-gray-400" aria-hidden="true">
+                <svg class="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M7 4a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0zm-1 7a1 1 0 100-2 1 1 0 000 2zm9-13a1 1 0 11-2 0 1 1 0 012 0zm-1 7a1 1 0 100-2 1 1 0 000 2zm1 5a1 1 0 11-2 0 1 1 0 012 0z" />
+                </svg>
+              </span>
+              <label class="flex flex-1 items-center gap-2">
+                <input
+                  type="checkbox"
+                  class="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  [checked]="column.visible !== false"
+                  [disabled]="!canToggle(column)"
+                  (change)="visibilityChange.emit({ column, visible: $any($event.target).checked })"
+                />
+                {{ column.label }}
+              </label>
+              <button
+                type="button"
+                class="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                [disabled]="i === 0"
+                [attr.aria-label]="'Move ' + column.label + ' up'"
+                (click)="move.emit({ from: i, to: i - 1 })"
+              >
+                <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                class="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                [disabled]="last"
+                [attr.aria-label]="'Move ' + column.label + ' down'"
+                (click)="move.emit({ from: i, to: i + 1 })"
+              >
+                <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+            </li>
+          }
+        </ul>
+
+        <div class="flex justify-end border-t border-gray-200 pt-2">
+          <button type="button" class="rounded-md px-3 py-1 text-sm text-gray-700 hover:bg-gray-100" (click)="reset.emit()">
+            Reset to default
+          </button>
+        </div>
+      </div>
+    </app-popover>
+  `,
+})
+export class ColumnSettingsComponent<T> {
+  /** All columns in display order, with resolved visibility */
+  columns = input.required<TableColumn<T>[]>();
+
+  visibilityChange = output<{ column: TableColumn<T>; visible: boolean }>();
+  move = output<{ from: number; to: number }>();
+  reset = output<void>();
+
+  open = signal(false);
+
+  private visibleCount = computed(() => this.columns().filter((col) => col.visible !== false).length);
+
+  /**
+   * Whether a column can be shown/hidden (the last visible column stays)
+   */
+  canToggle(column: TableColumn<T>): boolean {
+    if (column.hideable === false) return false;
+    return column.visible === false || this.visibleCount() > 1;
+  }
+
+  /**
+   * Handle a column dropped at a new position in the list
+   */
+  onDrop(event: CdkDragDrop<unknown>): void {
+    if (event.previousIndex !== event.currentIndex) {
+      this.move.emit({ from: event.previousIndex, to: event.currentIndex });
+    }
+  }
+}
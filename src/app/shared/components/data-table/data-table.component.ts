@@ -3,48 +3,135 @@
  *
  * A comprehensive, reusable table component with:
  * - Sorting
- * - Filtering
+ * - Filtering (per-column filter popovers, active filters shown as chips)
  * - Pagination
  * - Search
  * - Row actions
- * - Row selection
+ * - Inline cell editing (validated, saved optimistically, Tab / Enter move between cells)
+ * - Row selection (across pages, with a bulk action toolbar)
+ * - Expandable rows with inline detail content
+ * - Grouping by a column, with collapsible group headers showing counts and aggregates
+ * - Server-side mode (query parameters emitted, totals read from the server)
+ * - Optional URL state (search, sort, filters and paging kept in query params)
+ * - CSV / Excel export of the current view or the full server-side result set
+ * - Customizable columns (show/hide, drag to reorder and resize), saved per table id
+ * - Virtual scrolling with a sticky header and infinite loading for long lists
  */
 
 import { CommonModule } from '@angular/common';
 import {
   Component,
+  DestroyRef,
+  ElementRef,
   computed,
   effect,
+  inject,
   input,
+  linkedSignal,
   output,
   signal,
-  TemplateRef,
+  untracked,
+  viewChild,
 } from '@angular/core';
 import { FormsModule } from '@angular/forms';
+import { CdkDrag, CdkDragDrop, CdkDragHandle, CdkDropList, moveItemInArray } from '@angular/cdk/drag-drop';
+import { CdkFixedSizeVirtualScroll, CdkVirtualForOf, CdkVirtualScrollViewport } from '@angular/cdk/scrolling';
+import { ActivatedRoute, Router } from '@angular/router';
 
+import { AuthService } from '../../../core/auth/auth.service';
+import { HasPermissionDirective } from '../../../core/auth/has-permission.directive';
+import { NotificationService } from '../../../core/notifications/notification.service';
+import { DialogActionsDirective, DialogComponent, DialogContentDirective, DialogTitleDirective } from '../../../ui/dialog';
+import { MenuComponent, MenuItemDirective } from '../../../ui/menu';
+import { ColumnFilterComponent } from './column-filter.component';
+import { ColumnSettingsComponent } from './column-settings.component';
 import {
+  ColumnLayout,
+  PaginationState,
   TableAction,
+  TableBulkAction,
+  TableCellEditor,
   TableColumn,
   TableConfig,
+  TableDisplayRow,
+  TableExportOptions,
   TableFilter,
+  TableGroup,
+  TableQueryParams,
+  TableSelection,
   TableSort,
-  TableState,
+  TableVirtualScrollOptions,
   SortDirection,
-  FilterOperator,
 } from './data-table.types';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE_OPTIONS,
+  MIN_COLUMN_WIDTH,
+  applyColumnLayout,
+  clearColumnLayout,
+  createDefaultColumnLayout,
+  fetchAllPages,
+  formatFilterLabel,
+  getColumnKey,
+  groupRows,
+  loadColumnLayout,
+  matchesFilter,
+  readTableUrlState,
+  saveColumnLayout,
+  toExportSheet,
+  toTableUrlParams,
+} from './data-table.utils';
+import { debounce, formatDateISO } from '../../utils/common.utils';
+import { ExportFormat, toExportBlob } from '../../utils/export.utils';
+import { saveBlob } from '../../utils/file.utils';
+
+// A value entered in an editable cell, shown until fresh data arrives or the save fails
+interface CellEdit {
+  value: unknown;
+  saving: boolean;
+}
 
 @Component({
   selector: 'app-data-table',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    HasPermissionDirective,
+    ColumnFilterComponent,
+    ColumnSettingsComponent,
+    CdkDropList,
+    CdkDrag,
+    CdkDragHandle,
+    CdkVirtualScrollViewport,
+    CdkFixedSizeVirtualScroll,
+    CdkVirtualForOf,
+    DialogComponent,
+    DialogTitleDirective,
+    DialogContentDirective,
+    DialogActionsDirective,
+    MenuComponent,
+    MenuItemDirective,
+  ],
   templateUrl: './data-table.component.html',
   styleUrls: ['./data-table.component.css'],
 })
 export class DataTableComponent<T extends Record<string, any>> {
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly notifications = inject(NotificationService);
+  private readonly authService = inject(AuthService);
+  private readonly destroyRef = inject(DestroyRef);
+
   // Inputs
   data = input.required<T[]>();
   config = input.required<TableConfig<T>>();
   loading = input<boolean>(false);
+  pagination = input<PaginationState | null>(null);
+
+  // Infinite loading (virtual scroll): more rows can be loaded / are being loaded
+  hasNextPage = input<boolean>(false);
+  loadingMore = input<boolean>(false);
 
   // Outputs
   rowClick = output<T>();
@@ -52,21 +139,100 @@ export class DataTableComponent<T extends Record<string, any>> {
   sortChange = output<TableSort<T>>();
   filterChange = output<TableFilter<T>[]>();
   pageChange = output<{ pageNumber: number; pageSize: number }>();
+  queryChange = output<TableQueryParams<T>>();
+  loadMore = output<void>();
 
   // Internal state
   searchTerm = signal('');
+  // Search term applied to the query and the URL (trails the input while typing)
+  private readonly appliedSearchTerm = signal('');
   currentSort = signal<TableSort<T> | null>(null);
   currentFilters = signal<TableFilter<T>[]>([]);
   currentPage = signal(1);
-  pageSize = signal(10);
+  pageSize = signal(DEFAULT_PAGE_SIZE);
   selectedRows = signal<T[]>([]);
 
+  // Cell being edited inline, the text in its editor and the validation message for it
+  editingCell = signal<{ row: T; column: TableColumn<T>; initialDraft: string } | null>(null);
+  editDraft = signal('');
+  editError = signal<string | null>(null);
+  private readonly cellEditor = viewChild<ElementRef<HTMLInputElement>>('cellEditor');
+
+  // Edited values by row key and field (see CellEdit)
+  private cellEdits = signal<ReadonlyMap<unknown, ReadonlyMap<keyof T, CellEdit>>>(new Map());
+
+  // Field the rows are grouped by (reset when the config changes) and the keys of the collapsed groups
+  groupField = linkedSignal<keyof T | null>(() => this.config().groupBy ?? null);
+  collapsedGroups = linkedSignal<keyof T | null, ReadonlySet<string>>({
+    source: this.groupField,
+    computation: () => new Set(),
+  });
+
+  // Keys (see getRowKey) of the rows whose detail row is open
+  expandedKeys = signal<ReadonlySet<unknown>>(new Set());
+
+  // Every row matching the current query is selected (server-side: including pages not loaded)
+  allMatchingSelected = signal(false);
+
+  // Bulk action awaiting confirmation / currently running
+  confirmingBulkAction = signal<TableBulkAction<T> | null>(null);
+  runningBulkAction = signal<TableBulkAction<T> | null>(null);
+
+  // Export menu and progress of a running export (rows loaded / total)
+  exportMenuOpen = signal(false);
+  exportProgress = signal<{ loaded: number; total: number } | null>(null);
+  private exportAbort: AbortController | null = null;
+
+  readonly exportFormatLabels: Record<ExportFormat, string> = { csv: 'CSV', xlsx: 'Excel' };
+
+  // User column layout (order, visibility, widths), loaded once from local storage
+  columnLayout = signal<ColumnLayout>(createDefaultColumnLayout());
+  private columnLayoutLoaded = false;
+
+  // Virtual scroll viewport, the last rendered row index and the header offset keeping it in view
+  private readonly viewport = viewChild(CdkVirtualScrollViewport);
+  private renderedEnd = signal(0);
+  stickyHeaderOffset = signal(0);
+
+  // Ends a column resize drag in progress
+  private stopColumnResize: (() => void) | null = null;
+
+  // URL state: restored once from the route, then kept in sync
+  private urlStateRestored = false;
+
+  // Client-side page restored from the URL, applied once the data has loaded
+  private restoredPage: number | null = null;
+
+  // Keys (see getRowKey) of the last client-side data, to tell new rows from refreshed ones
+  private dataKeys: ReadonlySet<unknown> = new Set();
+
   // Computed values
+  isServerSide = computed(() => !!this.config().serverSide);
+
+  queryParams = computed<TableQueryParams<T>>(() => ({
+    pageNumber: this.currentPage(),
+    pageSize: this.pageSize(),
+    searchTerm: this.appliedSearchTerm().trim(),
+    filters: this.currentFilters(),
+    sort: this.currentSort(),
+  }));
+
+  // All columns in display order, with the user layout applied
+  orderedColumns = computed(() => {
+    const config = this.config();
+    return config.customizableColumns ? applyColumnLayout(config.columns, this.columnLayout()) : config.columns;
+  });
+
   visibleColumns = computed(() => {
-    return this.config().columns.filter((col) => col.visible !== false);
+    return this.orderedColumns().filter((col) => col.visible !== false);
   });
 
   filteredData = computed(() => {
+    // Server already applied search and filters
+    if (this.isServerSide()) {
+      return this.data();
+    }
+
     let result = [...this.data()];
 
     // Apply search
@@ -93,7 +259,7 @@ export class DataTableComponent<T extends Record<string, any>> {
 
   sortedData = computed(() => {
     const sort = this.currentSort();
-    if (!sort || !sort.direction) {
+    if (this.isServerSide() || !sort || !sort.direction) {
       return this.filteredData();
     }
 
@@ -109,80 +275,391 @@ export class DataTableComponent<T extends Record<string, any>> {
     });
   });
 
+  // Virtual scroll options with defaults applied, null when rows are paged instead
+  virtualScrollOptions = computed<Required<TableVirtualScrollOptions> | null>(() => {
+    const virtualScroll = this.config().virtualScroll;
+    if (!virtualScroll) return null;
+    return {
+      rowHeight: 53,
+      height: '600px',
+      loadMoreThreshold: 10,
+      ...(virtualScroll === true ? {} : virtualScroll),
+    };
+  });
+
+  isVirtual = computed(() => !!this.virtualScrollOptions());
+
+  groupableColumns = computed(() => this.config().columns.filter((col) => col.groupable));
+
+  groupColumn = computed(() => {
+    const field = this.groupField();
+    return field === null ? null : (this.config().columns.find((col) => col.field === field) ?? null);
+  });
+
+  // Groups of the sorted rows (server-side: of the loaded rows), aggregating the visible columns
+  groups = computed<TableGroup<T>[]>(() => {
+    const column = this.groupColumn();
+    if (!column) return [];
+    return groupRows(
+      this.sortedData(),
+      column,
+      this.visibleColumns().filter((col) => col.aggregate)
+    );
+  });
+
+  // Sorted rows, ordered by group when grouped
+  groupedData = computed(() => {
+    return this.groupColumn() ? this.groups().flatMap((group) => group.rows) : this.sortedData();
+  });
+
   paginatedData = computed(() => {
-    if (!this.config().pageable) {
-      return this.sortedData();
+    if (!this.config().pageable || this.isServerSide() || this.isVirtual()) {
+      return this.groupedData();
     }
 
     const start = (this.currentPage() - 1) * this.pageSize();
     const end = start + this.pageSize();
-    return this.sortedData().slice(start, end);
+    return this.groupedData().slice(start, end);
+  });
+
+  // Rows of the page as rendered: a header before each group, rows of collapsed groups left out
+  displayRows = computed<TableDisplayRow<T>[]>(() => {
+    const page = this.paginatedData();
+    if (!this.groupColumn()) {
+      return page.map((row, index) => ({ row, index }));
+    }
+
+    const groupOf = new Map<T, TableGroup<T>>();
+    for (const group of this.groups()) {
+      for (const row of group.rows) groupOf.set(row, group);
+    }
+
+    const collapsed = this.collapsedGroups();
+    const rows: TableDisplayRow<T>[] = [];
+    let current: TableGroup<T> | undefined;
+    page.forEach((row, index) => {
+      const group = groupOf.get(row)!;
+      if (group !== current) {
+        current = group;
+        rows.push({ group });
+      }
+      if (!collapsed.has(group.key)) {
+        rows.push({ row, index });
+      }
+    });
+    return rows;
   });
 
   totalPages = computed(() => {
-    if (!this.config().pageable) return 1;
+    if (!this.config().pageable || this.isVirtual()) return 1;
+    if (this.isServerSide()) {
+      return this.pagination()?.totalPages ?? Math.ceil(this.totalCount() / this.pageSize());
+    }
     return Math.ceil(this.sortedData().length / this.pageSize());
   });
 
-  totalCount = computed(() => this.sortedData().length);
+  totalCount = computed(() => {
+    if (this.isServerSide()) {
+      return this.pagination()?.totalCount ?? this.data().length;
+    }
+    return this.sortedData().length;
+  });
 
   showingFrom = computed(() => {
-    if (!this.config().pageable || this.totalCount() === 0) return 0;
+    if (!this.config().pageable || this.isVirtual() || this.totalCount() === 0) return 0;
     return (this.currentPage() - 1) * this.pageSize() + 1;
   });
 
   showingTo = computed(() => {
-    if (!this.config().pageable || this.totalCount() === 0) return 0;
+    if (!this.config().pageable || this.isVirtual() || this.totalCount() === 0) return 0;
     return Math.min(this.currentPage() * this.pageSize(), this.totalCount());
   });
 
   pageSizeOptions = computed(() => {
-    return this.config().pageSizeOptions || [10, 25, 50, 100];
+    return this.config().pageSizeOptions || DEFAULT_PAGE_SIZE_OPTIONS;
   });
 
+  // Rows get an expand toggle when there is detail content to show (fixed-height virtual rows can't grow)
+  isExpandable = computed(() => !!this.config().detailTemplate && !this.isVirtual());
+
+  // Number of cells in a row, for full-width rows
+  columnCount = computed(
+    () =>
+      this.visibleColumns().length +
+      (this.isExpandable() ? 1 : 0) +
+      (this.config().selectable ? 1 : 0) +
+      (this.config().showRowNumbers ? 1 : 0) +
+      (this.hasActions() ? 1 : 0)
+  );
+
   hasActions = computed(() => {
     return this.config().actions && this.config().actions!.length > 0;
   });
 
+  exportOptions = computed<TableExportOptions<T> | null>(() => {
+    const exportable = this.config().exportable;
+    if (!exportable) return null;
+    return exportable === true ? {} : exportable;
+  });
+
+  exportFormats = computed<ExportFormat[]>(() => this.exportOptions()?.formats ?? ['csv', 'xlsx']);
+
+  // Server-side tables can only export beyond the loaded page when the parent can fetch pages
+  canExportAll = computed(() => this.isServerSide() && !!this.exportOptions()?.fetchPage);
+
+  hasBulkActions = computed(() => (this.config().bulkActions?.length ?? 0) > 0);
+
+  selectedKeys = computed(() => new Set(this.selectedRows().map((row) => this.getRowKey(row))));
+
+  selectionCount = computed(() => {
+    if (this.allMatchingSelected() && this.isServerSide()) {
+      return this.totalCount();
+    }
+    return this.selectedRows().length;
+  });
+
+  pageSelected = computed(() => {
+    const page = this.paginatedData();
+    return page.length > 0 && page.every((row) => this.isRowSelected(row));
+  });
+
+  pagePartiallySelected = computed(() => {
+    return !this.pageSelected() && this.paginatedData().some((row) => this.isRowSelected(row));
+  });
+
+  // Offer "Select all N" once the whole page is selected and more rows match
+  canSelectAllMatching = computed(() => {
+    return (
+      !!this.config().multiSelect &&
+      this.pageSelected() &&
+      !this.allMatchingSelected() &&
+      this.selectionCount() < this.totalCount()
+    );
+  });
+
+  selection = computed<TableSelection<T>>(() => ({
+    rows: this.selectedRows(),
+    allMatching: this.allMatchingSelected(),
+    count: this.selectionCount(),
+    query: this.queryParams(),
+  }));
+
+  bulkConfirmMessage = computed(() => {
+    const action = this.confirmingBulkAction();
+    return action?.confirm ? action.confirm(this.selection()) : '';
+  });
+
   constructor() {
-    // Initialize page size from config
+    // Initialize page size from config, then restore the URL state (once)
     effect(() => {
-      const defaultSize = this.config().defaultPageSize;
-      if (defaultSize) {
-        this.pageSize.set(defaultSize);
+      const config = this.config();
+      untracked(() => {
+        if (config.defaultPageSize) {
+          this.pageSize.set(config.defaultPageSize);
+        }
+        const accountId = this.getLayoutAccountId();
+        if (config.customizableColumns && config.id && accountId && !this.columnLayoutLoaded) {
+          this.columnLayoutLoaded = true;
+          this.columnLayout.set(loadColumnLayout(config.id, accountId) ?? createDefaultColumnLayout());
+        }
+        if (config.urlState && !this.urlStateRestored) {
+          this.restoreUrlState(config);
+        }
+      });
+    });
+
+    // Reset to page 1 when the rows change (server-side data changes with every page);
+    // a refetch that only updates the contents of the same rows keeps the page
+    effect(() => {
+      const data = this.data();
+      if (untracked(() => this.isServerSide())) return;
+
+      const previousKeys = this.dataKeys;
+      this.dataKeys = new Set(untracked(() => data.map((row) => this.getRowKey(row))));
+      const sameRows =
+        this.dataKeys.size === previousKeys.size && [...this.dataKeys].every((key) => previousKeys.has(key));
+
+      untracked(() => this.refreshSelection(data));
+
+      // Keep a page restored from the URL until the data it refers to has loaded
+      if (this.restoredPage !== null) {
+        if (data.length > 0) {
+          this.currentPage.set(this.restoredPage);
+          this.restoredPage = null;
+        }
+        return;
+      }
+      if (!sameRows) {
+        this.currentPage.set(1);
       }
     });
 
-    // Reset to page 1 when data changes
+    // Mirror the table state into the URL
+    effect(() => {
+      const params = this.queryParams();
+      if (!this.urlStateRestored || !untracked(() => this.config().urlState)) return;
+      untracked(() => this.writeUrlState(params));
+    });
+
+    // Focus the inline cell editor when it opens (or moves to another cell)
+    effect(() => {
+      const editor = this.cellEditor()?.nativeElement;
+      if (editor) {
+        untracked(() => {
+          editor.focus();
+          editor.select();
+        });
+      }
+    });
+
+    // Saved edits are replaced by fresh data (edits still saving stay visible)
     effect(() => {
       this.data();
-      this.currentPage.set(1);
+      untracked(() => {
+        const edits = new Map<unknown, ReadonlyMap<keyof T, CellEdit>>();
+        for (const [key, fields] of this.cellEdits()) {
+          const saving = new Map([...fields].filter(([, edit]) => edit.saving));
+          if (saving.size > 0) edits.set(key, saving);
+        }
+        this.cellEdits.set(edits);
+      });
+    });
+
+    // Track the rendered range of the virtual scroll viewport
+    effect((onCleanup) => {
+      const viewport = this.viewport();
+      if (!viewport) return;
+
+      const subscription = viewport.renderedRangeStream.subscribe((range) => {
+        this.renderedEnd.set(range.end);
+        // The viewport moves the rendered rows (header included) by the content offset, which it
+        // updates right after emitting the range; counter it so the sticky header stays on top
+        queueMicrotask(() => this.stickyHeaderOffset.set(-(viewport.getOffsetToRenderedContentStart() ?? 0)));
+      });
+      onCleanup(() => subscription.unsubscribe());
+    });
+
+    // Infinite loading: ask for the next page as the user scrolls near the last loaded row
+    effect(() => {
+      const options = this.virtualScrollOptions();
+      if (!options || !this.hasNextPage() || this.loadingMore() || this.loading()) return;
+
+      const loaded = this.displayRows().length;
+      if (loaded > 0 && this.renderedEnd() >= loaded - options.loadMoreThreshold) {
+        untracked(() => this.loadMore.emit());
+      }
+    });
+
+    // Scroll back to the first row when the query or grouping changes
+    effect(() => {
+      this.searchTerm();
+      this.currentFilters();
+      this.currentSort();
+      this.groupField();
+      untracked(() => this.viewport()?.scrollToIndex(0));
+    });
+
+    this.destroyRef.onDestroy(() => this.stopColumnResize?.());
+  }
+
+  /**
+   * Apply the table state found in the route query params
+   */
+  private restoreUrlState(config: TableConfig<T>): void {
+    const state = readTableUrlState(config, this.route.snapshot.queryParamMap);
+    this.urlStateRestored = true;
+
+    if (state.searchTerm !== undefined) {
+      this.searchTerm.set(state.searchTerm);
+      this.appliedSearchTerm.set(state.searchTerm);
+    }
+    if (state.sort !== undefined) this.currentSort.set(state.sort);
+    if (state.filters) this.currentFilters.set(state.filters);
+    if (state.pageSize) this.pageSize.set(state.pageSize);
+    if (state.pageNumber) {
+      this.currentPage.set(state.pageNumber);
+      if (!config.serverSide) {
+        this.restoredPage = state.pageNumber;
+      }
+    }
+
+    // Parents that did not seed their query from the URL catch up here
+    if (Object.keys(state).length > 0) {
+      this.emitQueryChange();
+    }
+  }
+
+  /**
+   * Write the table state to the query params (replacing the history entry)
+   */
+  private writeUrlState(state: TableQueryParams<T>): void {
+    const params = toTableUrlParams(this.config(), state);
+    const current = this.route.snapshot.queryParamMap;
+
+    const unchanged = Object.entries(params).every(([name, value]) => {
+      const existing = current.getAll(name);
+      const next = value === null ? [] : ([] as unknown[]).concat(value).map(String);
+      return existing.length === next.length && existing.every((v, i) => v === next[i]);
+    });
+    if (unchanged) return;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: params,
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
     });
   }
 
+  /**
+   * Apply the search term (server query and URL) once the user stops typing
+   */
+  private readonly debouncedSearchQuery = debounce(() => {
+    this.appliedSearchTerm.set(this.searchTerm());
+    this.emitQueryChange();
+  }, 300);
+
+  /**
+   * Emit the current query parameters in server-side mode
+   */
+  private emitQueryChange(): void {
+    if (this.isServerSide()) {
+      this.queryChange.emit(this.queryParams());
+    }
+  }
+
   /**
    * Apply filter to a row
    */
   private applyFilter(row: T, filter: TableFilter<T>): boolean {
-    const value = row[filter.field];
-    const filterValue = filter.value;
+    return matchesFilter(row[filter.field], filter);
+  }
 
-    switch (filter.operator) {
-      case 'equals':
-        return value === filterValue;
-      case 'contains':
-        return value?.toString().toLowerCase().includes(filterValue.toLowerCase());
-      case 'startsWith':
-        return value?.toString().toLowerCase().startsWith(filterValue.toLowerCase());
-      case 'endsWith':
-        return value?.toString().toLowerCase().endsWith(filterValue.toLowerCase());
-      case 'greaterThan':
-        return value > filterValue;
-      case 'lessThan':
-        return value < filterValue;
-      default:
-        return true;
-    }
+  /**
+   * Identity used to track a selected row
+   */
+  private getRowKey(row: T): unknown {
+    const rowId = this.config().rowId;
+    return rowId ? rowId(row) : row;
+  }
+
+  /**
+   * Add rows to a selection, skipping the ones already in it
+   */
+  private mergeRows(selected: T[], rows: T[]): T[] {
+    const keys = new Set(selected.map((row) => this.getRowKey(row)));
+    return [...selected, ...rows.filter((row) => !keys.has(this.getRowKey(row)))];
+  }
+
+  /**
+   * Point a client-side selection at the reloaded rows, dropping rows that are gone
+   */
+  private refreshSelection(data: T[]): void {
+    if (this.selectedRows().length === 0) return;
+
+    const keys = this.selectedKeys();
+    this.selectedRows.set(data.filter((row) => keys.has(this.getRowKey(row))));
+    this.allMatchingSelected.set(false);
   }
 
   /**
@@ -204,9 +681,15 @@ export class DataTableComponent<T extends Record<string, any>> {
       : null;
 
     this.currentSort.set(newSort);
+    this.clearSelection();
     if (newSort) {
       this.sortChange.emit(newSort);
     }
+
+    if (this.isServerSide()) {
+      this.currentPage.set(1);
+      this.emitQueryChange();
+    }
   }
 
   /**
@@ -226,6 +709,55 @@ export class DataTableComponent<T extends Record<string, any>> {
   onSearchChange(value: string): void {
     this.searchTerm.set(value);
     this.currentPage.set(1); // Reset to first page
+    this.clearSelection();
+    this.debouncedSearchQuery();
+  }
+
+  /**
+   * Replace the active filters
+   */
+  setFilters(filters: TableFilter<T>[]): void {
+    this.currentFilters.set(filters);
+    this.currentPage.set(1); // Reset to first page
+    this.clearSelection();
+    this.filterChange.emit(filters);
+    this.emitQueryChange();
+  }
+
+  /**
+   * Get the active filter of a column
+   */
+  getColumnFilter(column: TableColumn<T>): TableFilter<T> | null {
+    return this.currentFilters().find((f) => f.field === column.field) ?? null;
+  }
+
+  /**
+   * Set (or remove, when null) the filter of a column
+   */
+  setColumnFilter(column: TableColumn<T>, filter: TableFilter<T> | null): void {
+    const others = this.currentFilters().filter((f) => f.field !== column.field);
+    this.setFilters(filter ? [...others, filter] : others);
+  }
+
+  /**
+   * Remove a single filter (chip close button)
+   */
+  removeFilter(filter: TableFilter<T>): void {
+    this.setFilters(this.currentFilters().filter((f) => f !== filter));
+  }
+
+  /**
+   * Remove all filters
+   */
+  clearFilters(): void {
+    this.setFilters([]);
+  }
+
+  /**
+   * Chip label for an active filter
+   */
+  getFilterLabel(filter: TableFilter<T>): string {
+    return formatFilterLabel(filter, this.config().columns.find((col) => col.field === filter.field));
   }
 
   /**
@@ -235,6 +767,7 @@ export class DataTableComponent<T extends Record<string, any>> {
     this.pageSize.set(size);
     this.currentPage.set(1); // Reset to first page
     this.pageChange.emit({ pageNumber: 1, pageSize: size });
+    this.emitQueryChange();
   }
 
   /**
@@ -244,6 +777,7 @@ export class DataTableComponent<T extends Record<string, any>> {
     if (page < 1 || page > this.totalPages()) return;
     this.currentPage.set(page);
     this.pageChange.emit({ pageNumber: page, pageSize: this.pageSize() });
+    this.emitQueryChange();
   }
 
   /**
@@ -270,15 +804,91 @@ export class DataTableComponent<T extends Record<string, any>> {
     this.rowClick.emit(row);
   }
 
+  /**
+   * Group the rows by a groupable column ('' for no grouping)
+   */
+  setGroupBy(field: string): void {
+    const column = this.groupableColumns().find((col) => String(col.field) === field);
+    this.groupField.set(column ? column.field : null);
+    // Server-side pages are grouped as loaded
+    if (!this.isServerSide()) {
+      this.currentPage.set(1);
+    }
+  }
+
+  /**
+   * Check whether a group's rows are hidden
+   */
+  isGroupCollapsed(group: TableGroup<T>): boolean {
+    return this.collapsedGroups().has(group.key);
+  }
+
+  /**
+   * Collapse or expand a group
+   */
+  toggleGroup(group: TableGroup<T>): void {
+    const collapsed = new Set(this.collapsedGroups());
+    if (!collapsed.delete(group.key)) {
+      collapsed.add(group.key);
+    }
+    this.collapsedGroups.set(collapsed);
+  }
+
+  /**
+   * Group header aggregate value as text
+   */
+  formatAggregate(value: number | Date): string {
+    return value instanceof Date ? value.toLocaleDateString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+
+  /**
+   * Check whether a row has detail content to expand
+   */
+  canExpandRow(row: T): boolean {
+    const rowExpandable = this.config().rowExpandable;
+    return this.isExpandable() && (!rowExpandable || rowExpandable(row));
+  }
+
+  /**
+   * Check if a row's detail row is open
+   */
+  isRowExpanded(row: T): boolean {
+    return this.expandedKeys().has(this.getRowKey(row));
+  }
+
+  /**
+   * Open or close a row's detail row (closing the others unless multiExpand is enabled)
+   */
+  toggleRowExpanded(row: T): void {
+    const key = this.getRowKey(row);
+    const expanded = this.expandedKeys();
+
+    if (expanded.has(key)) {
+      const next = new Set(expanded);
+      next.delete(key);
+      this.expandedKeys.set(next);
+    } else {
+      this.expandedKeys.set(this.config().multiExpand === false ? new Set([key]) : new Set(expanded).add(key));
+    }
+  }
+
   /**
    * Toggle row selection
    */
   toggleRowSelection(row: T): void {
+    // Deselecting from "all matching" narrows the selection to the loaded rows
+    if (this.allMatchingSelected()) {
+      this.allMatchingSelected.set(false);
+      if (this.isServerSide()) {
+        this.selectedRows.set(this.mergeRows(this.selectedRows(), this.paginatedData()));
+      }
+    }
+
     const selected = this.selectedRows();
-    const index = selected.indexOf(row);
+    const key = this.getRowKey(row);
 
-    if (index > -1) {
-      this.selectedRows.set(selected.filter((r) => r !== row));
+    if (this.selectedKeys().has(key)) {
+      this.selectedRows.set(selected.filter((r) => this.getRowKey(r) !== key));
     } else {
       if (this.config().multiSelect) {
         this.selectedRows.set([...selected, row]);
@@ -294,32 +904,545 @@ export class DataTableComponent<T extends Record<string, any>> {
    * Check if row is selected
    */
   isRowSelected(row: T): boolean {
-    return this.selectedRows().includes(row);
+    if (this.allMatchingSelected() && this.isServerSide()) {
+      return true;
+    }
+    return this.selectedKeys().has(this.getRowKey(row));
   }
 
   /**
-   * Toggle all rows selection
+   * Toggle selection of the rows on the current page (selections on other pages are kept)
    */
   toggleAllRows(): void {
-    if (this.selectedRows().length === this.paginatedData().length) {
-      this.selectedRows.set([]);
+    if (this.allMatchingSelected()) {
+      this.clearSelection();
+      return;
+    }
+
+    const page = this.paginatedData();
+    if (this.pageSelected()) {
+      const pageKeys = new Set(page.map((row) => this.getRowKey(row)));
+      this.selectedRows.set(this.selectedRows().filter((row) => !pageKeys.has(this.getRowKey(row))));
     } else {
-      this.selectedRows.set([...this.paginatedData()]);
+      this.selectedRows.set(this.mergeRows(this.selectedRows(), page));
     }
     this.selectionChange.emit(this.selectedRows());
   }
 
+  /**
+   * Select every row matching the current search and filters, on all pages
+   */
+  selectAllMatching(): void {
+    this.allMatchingSelected.set(true);
+    // Server-side only the loaded rows are known; the rest is described by the query
+    this.selectedRows.set(
+      this.isServerSide() ? this.mergeRows(this.selectedRows(), this.paginatedData()) : [...this.sortedData()]
+    );
+    this.selectionChange.emit(this.selectedRows());
+  }
+
+  /**
+   * Deselect all rows
+   */
+  clearSelection(): void {
+    if (this.selectedRows().length === 0 && !this.allMatchingSelected()) return;
+
+    this.allMatchingSelected.set(false);
+    this.selectedRows.set([]);
+    this.selectionChange.emit([]);
+  }
+
+  /**
+   * Check if a bulk action is disabled for the current selection
+   */
+  isBulkActionDisabled(action: TableBulkAction<T>): boolean {
+    return !!this.runningBulkAction() || (action.disabled ? action.disabled(this.selection()) : false);
+  }
+
+  /**
+   * Handle bulk action click (asks for confirmation first when the action has a confirm message)
+   */
+  onBulkActionClick(action: TableBulkAction<T>): void {
+    if (this.isBulkActionDisabled(action)) return;
+
+    if (action.confirm) {
+      this.confirmingBulkAction.set(action);
+    } else {
+      void this.runBulkAction(action);
+    }
+  }
+
+  /**
+   * Run the bulk action awaiting confirmation
+   */
+  confirmBulkAction(): void {
+    const action = this.confirmingBulkAction();
+    this.confirmingBulkAction.set(null);
+    if (action) {
+      void this.runBulkAction(action);
+    }
+  }
+
+  /**
+   * Dismiss the bulk action confirmation
+   */
+  cancelBulkAction(): void {
+    this.confirmingBulkAction.set(null);
+  }
+
+  /**
+   * Run a bulk action, then keep the rows it returns selected (or clear the selection)
+   * When the handler throws, the error is reported and the selection is kept for a retry.
+   */
+  private async runBulkAction(action: TableBulkAction<T>): Promise<void> {
+    this.runningBulkAction.set(action);
+    try {
+      const remaining = await action.handler(this.selection());
+      this.allMatchingSelected.set(false);
+      this.selectedRows.set(remaining ?? []);
+      this.selectionChange.emit(this.selectedRows());
+    } catch (error) {
+      this.notifications.notifyError(error, { title: `${action.label} failed` });
+    } finally {
+      this.runningBulkAction.set(null);
+    }
+  }
+
+  /**
+   * Export the current view: all rows matching the search and filters (client-side)
+   * or the loaded page (server-side), in the current sort order
+   */
+  exportView(format: ExportFormat): void {
+    this.exportMenuOpen.set(false);
+    this.download(this.isServerSide() ? this.paginatedData() : this.sortedData(), format);
+  }
+
+  /**
+   * Export the full server-side result set, loading it page by page
+   */
+  async exportAll(format: ExportFormat): Promise<void> {
+    this.exportMenuOpen.set(false);
+    const fetchPage = this.exportOptions()?.fetchPage;
+    if (!fetchPage || this.exportProgress()) return;
+
+    const abort = new AbortController();
+    const query = this.queryParams();
+    this.exportAbort = abort;
+    this.exportProgress.set({ loaded: 0, total: this.totalCount() });
+
+    try {
+      const rows = await fetchAllPages((pageNumber, pageSize) => fetchPage({ ...query, pageNumber, pageSize }), {
+        signal: abort.signal,
+        onProgress: (loaded, total) => this.exportProgress.set({ loaded, total }),
+      });
+      if (!abort.signal.aborted) {
+        this.download(rows, format);
+      }
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        this.notifications.notifyError(error, { title: 'Export failed' });
+      }
+    } finally {
+      if (this.exportAbort === abort) {
+        this.exportAbort = null;
+        this.exportProgress.set(null);
+      }
+    }
+  }
+
+  /**
+   * Stop a running export (the page in flight is discarded)
+   */
+  cancelExport(): void {
+    this.exportAbort?.abort();
+    this.exportAbort = null;
+    this.exportProgress.set(null);
+  }
+
+  /**
+   * Save rows as an export file of the visible columns
+   */
+  private download(rows: T[], format: ExportFormat): void {
+    const fileName = this.exportOptions()?.fileName || 'export';
+    const sheet = toExportSheet(this.visibleColumns(), rows, fileName);
+    saveBlob(toExportBlob(sheet, format), `${fileName}-${formatDateISO(new Date())}.${format}`);
+  }
+
+  /**
+   * Show or hide a column
+   */
+  setColumnVisible(column: TableColumn<T>, visible: boolean): void {
+    const key = getColumnKey(column);
+    this.updateColumnLayout((layout) => ({ ...layout, visibility: { ...layout.visibility, [key]: visible } }));
+  }
+
+  /**
+   * Move a column between two positions of the full column order
+   */
+  moveColumn(from: number, to: number): void {
+    const order = this.orderedColumns().map((col) => getColumnKey(col));
+    if (from === to || to < 0 || to >= order.length) return;
+
+    moveItemInArray(order, from, to);
+    this.updateColumnLayout((layout) => ({ ...layout, order }));
+  }
+
+  /**
+   * Handle a header dropped at a new position (indices count visible columns only)
+   */
+  onHeaderDrop(event: CdkDragDrop<unknown>): void {
+    const visible = this.visibleColumns();
+    const all = this.orderedColumns();
+    const from = all.indexOf(visible[event.previousIndex]);
+    const to = all.indexOf(visible[event.currentIndex]);
+    if (from > -1 && to > -1) {
+      this.moveColumn(from, to);
+    }
+  }
+
+  /**
+   * Start resizing a column by dragging the right edge of its header
+   */
+  startColumnResize(event: PointerEvent, column: TableColumn<T>, header: HTMLElement): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.stopColumnResize?.();
+
+    const startX = event.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+    const key = getColumnKey(column);
+
+    const onMove = (move: PointerEvent) => this.setColumnWidth(key, startWidth + move.clientX - startX, false);
+    const onUp = () => {
+      this.stopColumnResize?.();
+      this.persistColumnLayout();
+    };
+
+    document.addEventListener('pointermove', onMove);
+    document.addEventListener('pointerup', onUp);
+    this.stopColumnResize = () => {
+      document.removeEventListener('pointermove', onMove);
+      document.removeEventListener('pointerup', onUp);
+      this.stopColumnResize = null;
+    };
+  }
+
+  /**
+   * Resize a column with the arrow keys (resize handle focused)
+   */
+  onResizeKeydown(event: KeyboardEvent, column: TableColumn<T>, header: HTMLElement): void {
+    const step = event.key === 'ArrowRight' ? 10 : event.key === 'ArrowLeft' ? -10 : 0;
+    if (!step) return;
+
+    event.preventDefault();
+    this.setColumnWidth(getColumnKey(column), header.getBoundingClientRect().width + step);
+  }
+
+  /**
+   * Drop a custom column width (double-click on the resize handle)
+   */
+  resetColumnWidth(column: TableColumn<T>): void {
+    const key = getColumnKey(column);
+    this.updateColumnLayout((layout) => {
+      const { [key]: _removed, ...widths } = layout.widths;
+      return { ...layout, widths };
+    });
+  }
+
+  /**
+   * Restore the config-defined column layout
+   */
+  resetColumnLayout(): void {
+    this.columnLayout.set(createDefaultColumnLayout());
+    const id = this.config().id;
+    const accountId = this.getLayoutAccountId();
+    if (id && accountId) {
+      clearColumnLayout(id, accountId);
+    }
+  }
+
+  private setColumnWidth(key: string, width: number, persist = true): void {
+    const rounded = Math.max(MIN_COLUMN_WIDTH, Math.round(width));
+    this.updateColumnLayout((layout) => ({ ...layout, widths: { ...layout.widths, [key]: rounded } }), persist);
+  }
+
+  private updateColumnLayout(update: (layout: ColumnLayout) => ColumnLayout, persist = true): void {
+    this.columnLayout.update(update);
+    if (persist) {
+      this.persistColumnLayout();
+    }
+  }
+
+  private persistColumnLayout(): void {
+    const id = this.config().id;
+    const accountId = this.getLayoutAccountId();
+    if (id && accountId) {
+      saveColumnLayout(id, accountId, this.columnLayout());
+    }
+  }
+
+  /**
+   * Signed-in account the column layout is saved for (without one, changes last for the session)
+   */
+  private getLayoutAccountId(): string | undefined {
+    return this.authService.getActiveAccount()?.homeAccountId;
+  }
+
   /**
    * Get cell value
    */
   getCellValue(row: T, column: TableColumn<T>): string {
-    const value = row[column.field];
+    const edited = this.withCellEdits(row);
+    const value = edited[column.field];
     if (column.format) {
-      return column.format(value, row);
+      return column.format(value, edited);
     }
     return value?.toString() || '';
   }
 
+  /**
+   * The row with the values edited in it applied
+   */
+  withCellEdits(row: T): T {
+    const edits = this.cellEdits().get(this.getRowKey(row));
+    if (!edits) return row;
+
+    const edited = { ...row };
+    for (const [field, edit] of edits) {
+      edited[field] = edit.value as T[keyof T];
+    }
+    return edited;
+  }
+
+  /**
+   * Check whether a cell can be edited (not while its last edit is saving)
+   */
+  canEditCell(row: T, column: TableColumn<T>): boolean {
+    const editor = column.editable;
+    return (
+      !!editor &&
+      this.authService.hasPermission(editor.permission) &&
+      !editor.disabled?.(row) &&
+      !this.isCellSaving(row, column)
+    );
+  }
+
+  /**
+   * Check whether a cell's edit is being saved
+   */
+  isCellSaving(row: T, column: TableColumn<T>): boolean {
+    return !!this.cellEdits().get(this.getRowKey(row))?.get(column.field)?.saving;
+  }
+
+  /**
+   * Check whether a cell is open in the inline editor
+   */
+  isEditingCell(row: T, column: TableColumn<T>): boolean {
+    const cell = this.editingCell();
+    return !!cell && cell.column.field === column.field && this.getRowKey(cell.row) === this.getRowKey(row);
+  }
+
+  /**
+   * Input type of a column's inline editor
+   */
+  getEditorInputType(column: TableColumn<T>): NonNullable<TableCellEditor<T>['inputType']> {
+    if (column.editable?.inputType) return column.editable.inputType;
+    if (column.type === 'number') return 'number';
+    return column.type === 'date' ? 'date' : 'text';
+  }
+
+  /**
+   * Open a cell in the inline editor (committing the cell being edited first)
+   */
+  startCellEdit(row: T, column: TableColumn<T>): void {
+    if (!this.canEditCell(row, column) || this.isEditingCell(row, column)) return;
+    if (!this.commitCellEdit()) return;
+
+    const value = this.withCellEdits(row)[column.field];
+    let draft = value === null || value === undefined ? '' : String(value);
+    if (value && this.getEditorInputType(column) === 'date') {
+      draft = formatDateISO(new Date(value));
+    }
+
+    this.editingCell.set({ row, column, initialDraft: draft });
+    this.editDraft.set(draft);
+    this.editError.set(null);
+  }
+
+  /**
+   * Open an editable cell on click (instead of the row click)
+   */
+  onCellClick(event: MouseEvent, row: T, column: TableColumn<T>): void {
+    if (!this.canEditCell(row, column)) return;
+    event.stopPropagation();
+    this.startCellEdit(row, column);
+  }
+
+  /**
+   * Open a focused editable cell with Enter
+   */
+  onCellEnter(event: Event, row: T, column: TableColumn<T>): void {
+    if (event.target !== event.currentTarget || !this.canEditCell(row, column)) return;
+    event.preventDefault();
+    this.startCellEdit(row, column);
+  }
+
+  /**
+   * Close the inline editor without saving
+   */
+  cancelCellEdit(): void {
+    this.editingCell.set(null);
+    this.editError.set(null);
+  }
+
+  /**
+   * Validate and save the cell being edited
+   * @returns false when the value is invalid (the editor stays open with the error)
+   */
+  commitCellEdit(): boolean {
+    const cell = this.editingCell();
+    if (!cell) return true;
+
+    const draft = this.editDraft();
+    if (draft === cell.initialDraft) {
+      this.cancelCellEdit();
+      return true;
+    }
+
+    const editor = cell.column.editable!;
+    let value: unknown = draft;
+    if (this.getEditorInputType(cell.column) === 'number') {
+      value = draft.trim() === '' ? null : Number(draft);
+    }
+    if (editor.validator) {
+      const result = editor.validator.safeParse(value);
+      if (!result.success) {
+        this.editError.set(result.error.errors[0]?.message ?? 'Invalid value');
+        return false;
+      }
+      value = result.data;
+    }
+
+    this.cancelCellEdit();
+    this.saveCellEdit(cell.row, cell.column, value);
+    return true;
+  }
+
+  /**
+   * Show an edited value right away and save it, rolling back if the save fails
+   * Once saved, the value shows until fresh data arrives (or is dropped when it already has).
+   * Errors are left to the caller, e.g. the mutation's global error handler.
+   */
+  private async saveCellEdit(row: T, column: TableColumn<T>, value: unknown): Promise<void> {
+    const key = this.getRowKey(row);
+    const edit: CellEdit = { value, saving: true };
+    const data = this.data();
+    this.setCellEdit(key, column.field, edit);
+
+    let saved = false;
+    try {
+      await column.editable!.save(row, value);
+      saved = true;
+    } catch {
+      // Reported by the save callback (see the editable column docs)
+    }
+
+    if (this.cellEdits().get(key)?.get(column.field) === edit) {
+      const refreshed = this.data() !== data;
+      this.setCellEdit(key, column.field, saved && !refreshed ? { value, saving: false } : null);
+    }
+  }
+
+  /**
+   * Set (or with null, remove) the edit of a cell
+   */
+  private setCellEdit(key: unknown, field: keyof T, edit: CellEdit | null): void {
+    const edits = new Map(this.cellEdits());
+    const fields = new Map(edits.get(key));
+    if (edit) {
+      fields.set(field, edit);
+    } else {
+      fields.delete(field);
+    }
+    if (fields.size > 0) {
+      edits.set(key, fields);
+    } else {
+      edits.delete(key);
+    }
+    this.cellEdits.set(edits);
+  }
+
+  /**
+   * Keyboard handling of the inline editor:
+   * Enter / Shift+Enter save and edit the cell below / above, Tab / Shift+Tab the next / previous
+   * editable cell, Escape cancels. Focus returns to the cell when there is nowhere to move.
+   */
+  onCellEditorKeydown(event: KeyboardEvent, cell: HTMLElement): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.cancelCellEdit();
+      cell.focus();
+      return;
+    }
+    if (event.key !== 'Enter' && event.key !== 'Tab') return;
+
+    event.preventDefault();
+    const editing = this.editingCell();
+    if (!editing) return;
+
+    const direction = event.key === 'Enter' ? (event.shiftKey ? 'up' : 'down') : event.shiftKey ? 'previous' : 'next';
+    const next = this.findEditableCell(editing.row, editing.column, direction);
+    if (!this.commitCellEdit()) return;
+
+    if (next) {
+      this.startCellEdit(next.row, next.column);
+    } else {
+      cell.focus();
+    }
+  }
+
+  /**
+   * Commit the edit when its editor loses focus (ignoring editors that were already closed)
+   */
+  onCellEditorBlur(row: T, column: TableColumn<T>): void {
+    if (this.isEditingCell(row, column)) {
+      this.commitCellEdit();
+    }
+  }
+
+  /**
+   * Find the nearest editable cell from a cell, in reading order (next / previous) or in its column (up / down)
+   */
+  private findEditableCell(
+    row: T,
+    column: TableColumn<T>,
+    direction: 'next' | 'previous' | 'up' | 'down'
+  ): { row: T; column: TableColumn<T> } | null {
+    const rows = this.displayRows().flatMap((item) => (item.row ? [item.row] : []));
+    const columns = this.visibleColumns().filter((col) => col.editable);
+    const key = this.getRowKey(row);
+
+    let rowIndex = rows.findIndex((r) => this.getRowKey(r) === key);
+    let columnIndex = columns.findIndex((col) => col.field === column.field);
+    const step = direction === 'next' || direction === 'down' ? 1 : -1;
+
+    for (;;) {
+      if (direction === 'up' || direction === 'down') {
+        rowIndex += step;
+      } else {
+        columnIndex += step;
+        if (columnIndex >= columns.length || columnIndex < 0) {
+          columnIndex = step > 0 ? 0 : columns.length - 1;
+          rowIndex += step;
+        }
+      }
+      if (rowIndex < 0 || rowIndex >= rows.length) return null;
+      if (this.canEditCell(rows[rowIndex], columns[columnIndex])) {
+        return { row: rows[rowIndex], column: columns[columnIndex] };
+      }
+    }
+  }
+
   /**
    * Check if action is visible for row
    */
@@ -5,6 +5,10 @@
  */
 
 import { TemplateRef } from '@angular/core';
+import { z } from 'zod';
+
+import { AuthRequirement } from '../../../core/auth/auth.types';
+import { ExportCell, ExportFormat } from '../../utils/export.utils';
 
 /**
  * Sort direction
@@ -13,8 +17,34 @@ export type SortDirection = 'asc' | 'desc' | null;
 
 /**
  * Filter operator
+ * `between` takes a DateRangeFilterValue
+ */
+export type FilterOperator =
+  | 'equals'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'between';
+
+/**
+ * Column value type, used to pick the filter operators and editor
  */
-export type FilterOperator = 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'greaterThan' | 'lessThan';
+export type ColumnType = 'text' | 'number' | 'date' | 'boolean';
+
+/**
+ * Aggregate of a column shown in group headers (numbers; min / max also dates)
+ */
+export type TableAggregate = 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Value of a date range filter (`yyyy-mm-dd`, both ends inclusive, either end optional)
+ */
+export interface DateRangeFilterValue {
+  from?: string;
+  to?: string;
+}
 
 /**
  * Filter configuration
@@ -46,9 +76,12 @@ export interface TableColumn<T = any> {
   /** Whether this column is sortable */
   sortable?: boolean;
 
-  /** Whether this column is filterable */
+  /** Whether this column is filterable (adds a filter popover to the header) */
   filterable?: boolean;
 
+  /** Value type, selects the filter operators (default: 'text') */
+  type?: ColumnType;
+
   /** Custom cell template */
   cellTemplate?: TemplateRef<any>;
 
@@ -64,8 +97,50 @@ export interface TableColumn<T = any> {
   /** Column width */
   width?: string;
 
-  /** Whether column is visible */
+  /** Whether column is visible (initially, when columns are customizable) */
   visible?: boolean;
+
+  /** Whether users can hide this column when columns are customizable (default: true) */
+  hideable?: boolean;
+
+  /** Whether column is included in exports (default: true) */
+  exportable?: boolean;
+
+  /** Exported value, e.g. for columns rendered with a cellTemplate (default: Date as-is, else `format` or the raw value) */
+  exportValue?: (value: any, row: T) => ExportCell;
+
+  /** Offer grouping rows by this column's value in the "Group by" menu */
+  groupable?: boolean;
+
+  /** Aggregates of this column shown in group headers */
+  aggregate?: TableAggregate | TableAggregate[];
+
+  /** Let users edit the cell in place (click, or Enter when the cell is focused) */
+  editable?: TableCellEditor<T>;
+}
+
+/**
+ * Inline cell editing of a column
+ * The new value shows right away and is rolled back when `save` rejects; reporting the error is left to the caller's mutation.
+ */
+export interface TableCellEditor<T = any> {
+  /** Persist the new value, typically through a mutation's `mutateAsync` */
+  save: (row: T, value: any) => Promise<unknown>;
+
+  /**
+   * Validates (and may transform) the entered value before it is saved.
+   * Receives a number for number inputs (null when empty), else the input text.
+   */
+  validator?: z.ZodTypeAny;
+
+  /** Input type (default: 'number' for number columns, 'date' for date columns, else 'text') */
+  inputType?: 'text' | 'email' | 'number' | 'date';
+
+  /** Whether the cell of this row is read-only */
+  disabled?: (row: T) => boolean;
+
+  /** Roles/scopes required to edit */
+  permission?: AuthRequirement;
 }
 
 /**
@@ -89,15 +164,79 @@ export interface TableAction<T = any> {
 
   /** CSS class for action button */
   buttonClass?: string;
+
+  /** Roles/scopes required to see this action */
+  permission?: AuthRequirement;
+}
+
+/**
+ * Rows a bulk action applies to
+ */
+export interface TableSelection<T = any> {
+  /** Selected rows (server-side with `allMatching`, only the rows loaded so far) */
+  rows: T[];
+
+  /** Every row matching `query` is selected, including pages that were never loaded */
+  allMatching: boolean;
+
+  /** Number of selected rows */
+  count: number;
+
+  /** Search, filters and sort the selection was made under */
+  query: TableQueryParams<T>;
+}
+
+/**
+ * Bulk action shown in the selection toolbar
+ */
+export interface TableBulkAction<T = any> {
+  /** Button label */
+  label: string;
+
+  /** Icon markup shown before the label */
+  icon?: string;
+
+  /**
+   * Action handler. While a returned promise is pending the toolbar is disabled;
+   * it may resolve with the rows that should stay selected (e.g. the ones that failed),
+   * otherwise the selection is cleared.
+   */
+  handler: (selection: TableSelection<T>) => void | Promise<void | T[]>;
+
+  /** Confirmation message; when set the action only runs after the user confirms */
+  confirm?: (selection: TableSelection<T>) => string;
+
+  /** Whether action is disabled for this selection */
+  disabled?: (selection: TableSelection<T>) => boolean;
+
+  /** CSS class for action button */
+  buttonClass?: string;
+
+  /** Roles/scopes required to see this action */
+  permission?: AuthRequirement;
+}
+
+/**
+ * Outcome of running an operation over several items (see runBulkOperation)
+ */
+export interface BulkOperationResult<T = any> {
+  succeeded: T[];
+  failed: Array<{ item: T; error: unknown }>;
 }
 
 /**
  * Table configuration
  */
 export interface TableConfig<T = any> {
+  /** Table id, the key under which each signed-in user's column layout is saved */
+  id?: string;
+
   /** Column definitions */
   columns: TableColumn<T>[];
 
+  /** Let users show/hide, reorder (drag headers) and resize (drag header edges) columns */
+  customizableColumns?: boolean;
+
   /** Row actions */
   actions?: TableAction<T>[];
 
@@ -122,6 +261,34 @@ export interface TableConfig<T = any> {
   /** Enable multi-row selection */
   multiSelect?: boolean;
 
+  /** Actions on the selected rows, shown in a toolbar while rows are selected */
+  bulkActions?: TableBulkAction<T>[];
+
+  /**
+   * Initial grouping: rows are grouped by this field under collapsible headers with counts and aggregates.
+   * Users can change it among the `groupable` columns.
+   */
+  groupBy?: keyof T;
+
+  /**
+   * Detail content rendered in a full-width row below an expanded row (context: `TableDetailContext<T>`).
+   * Adds an expand toggle to every row; the template is only instantiated while its row is open.
+   * Not available with `virtualScroll`, whose rows have a fixed height.
+   */
+  detailTemplate?: TemplateRef<TableDetailContext<T>>;
+
+  /** Whether a row can be expanded (default: all rows when a `detailTemplate` is set) */
+  rowExpandable?: (row: T) => boolean;
+
+  /** Allow several rows to be expanded at once (default: true) */
+  multiExpand?: boolean;
+
+  /**
+   * Stable row identity used to track selected and expanded rows.
+   * Needed in server-side mode, where every page load returns new row objects (default: object identity)
+   */
+  rowId?: (row: T) => unknown;
+
   /** Show row numbers */
   showRowNumbers?: boolean;
 
@@ -134,6 +301,28 @@ export interface TableConfig<T = any> {
   /** CSS class for table */
   tableClass?: string;
 
+  /**
+   * Delegate search, filtering, sorting and paging to the server.
+   * The table renders `data` as-is, emits `queryChange` with the current
+   * query parameters and reads totals from the `pagination` input.
+   */
+  serverSide?: boolean;
+
+  /**
+   * Round-trip search, sort, filters, page and page size through router query params,
+   * so the current view survives reloads and back-navigation and can be bookmarked or shared
+   */
+  urlState?: boolean | TableUrlStateOptions;
+
+  /**
+   * Render rows in a virtual scroll viewport with a sticky header instead of pages.
+   * Combine with `serverSide` and the `hasNextPage` / `loadMore` bindings for infinite loading.
+   */
+  virtualScroll?: boolean | TableVirtualScrollOptions;
+
+  /** Offer CSV / Excel export of the current view (and, with `fetchPage`, of the full server-side result set) */
+  exportable?: boolean | TableExportOptions<T>;
+
   /** Row click handler */
   onRowClick?: (row: T) => void;
 
@@ -142,6 +331,106 @@ export interface TableConfig<T = any> {
 
   /** New button label */
   newButtonLabel?: string;
+
+  /** Roles/scopes required to see the new button (match the guard of the route it opens) */
+  newPermission?: AuthRequirement;
+}
+
+/**
+ * Rows sharing a value of the grouping field
+ */
+export interface TableGroup<T = any> {
+  /** Group identity (the value as text) */
+  key: string;
+
+  /** Header label (the value, formatted like its column) */
+  label: string;
+
+  rows: T[];
+
+  aggregates: TableGroupAggregate[];
+}
+
+/**
+ * Aggregate value of a group, e.g. "Max Order: 12"
+ */
+export interface TableGroupAggregate {
+  label: string;
+  value: number | Date;
+}
+
+/**
+ * Row rendered in the table body: a group header or a data row (index on the page)
+ */
+export type TableDisplayRow<T = any> = { group: TableGroup<T>; row?: never } | { row: T; index: number; group?: never };
+
+/**
+ * Template context of an expanded row's detail content
+ */
+export interface TableDetailContext<T = any> {
+  $implicit: T;
+}
+
+/**
+ * URL state options
+ */
+export interface TableUrlStateOptions {
+  /** Query param name prefix, needed when several tables share a route (e.g. 'files' gives `files.page`) */
+  prefix?: string;
+}
+
+/**
+ * Virtual scroll options
+ */
+export interface TableVirtualScrollOptions {
+  /** Fixed row height in px (default: 53, the height of a default row) */
+  rowHeight?: number;
+
+  /** Viewport height, any CSS length (default: '600px') */
+  height?: string;
+
+  /** Emit `loadMore` when the last rendered row is this close to the end (default: 10) */
+  loadMoreThreshold?: number;
+}
+
+/**
+ * Export options
+ */
+export interface TableExportOptions<T = any> {
+  /** File name without extension; the current date is appended (default: 'export') */
+  fileName?: string;
+
+  /** Offered formats (default: ['csv', 'xlsx']) */
+  formats?: ExportFormat[];
+
+  /**
+   * Server-side: load one page of the full result set for the query (used to export all results).
+   * The table pages through the results with a large page size and reports progress.
+   */
+  fetchPage?: (query: TableQueryParams<T>) => Promise<TablePage<T>>;
+}
+
+/**
+ * One page of a paginated API response
+ */
+export interface TablePage<T = any> {
+  items?: T[] | null;
+  totalCount?: number;
+  totalPages?: number;
+}
+
+/**
+ * User column layout, stored per table id and account (columns are keyed by field name)
+ */
+export interface ColumnLayout {
+  /** Column order; columns missing from it follow in config order */
+  order: string[];
+
+  /** Visibility overrides of the config `visible` flags */
+  visibility: Record<string, boolean>;
+
+  /** Column widths in pixels, overriding the config `width` */
+  widths: Record<string, number>;
 }
 
 /**
@@ -154,6 +443,17 @@ export interface PaginationState {
   totalPages: number;
 }
 
+/**
+ * Query parameters emitted by a server-side table
+ */
+export interface TableQueryParams<T = any> {
+  pageNumber: number;
+  pageSize: number;
+  searchTerm: string;
+  filters: TableFilter<T>[];
+  sort: TableSort<T> | null;
+}
+
 /**
  * Table state
  */
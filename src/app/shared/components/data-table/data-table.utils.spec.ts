@@ -0,0 +1,192 @@
+import { convertToParamMap } from '@angular/router';
+import { TableConfig, TableQueryParams } from './data-table.types';
+import {
+  clearColumnLayout,
+  loadColumnLayout,
+  matchesFilter,
+  readTableUrlState,
+  saveColumnLayout,
+  toTableUrlParams,
+} from './data-table.utils';
+
+interface Audit {
+  auditNumber: number;
+  state: string;
+  startDate: string;
+}
+
+const config: TableConfig<Audit> = {
+  columns: [
+    { label: 'Audit #', field: 'auditNumber', sortable: true },
+    { label: 'State', field: 'state' },
+    { label: 'Start Date', field: 'startDate', sortable: true },
+  ],
+  searchable: true,
+  urlState: true,
+};
+
+const defaultQuery: TableQueryParams<Audit> = {
+  pageNumber: 1,
+  pageSize: 10,
+  searchTerm: '',
+  filters: [],
+  sort: null,
+};
+
+describe('readTableUrlState', () => {
+  it('should read search, sort, filters, page and page size', () => {
+    const state = readTableUrlState(
+      config,
+      convertToParamMap({
+        q: 'valve',
+        sort: 'auditNumber:desc',
+        filter: ['state:equals:"NC"', 'auditNumber:greaterThan:24000'],
+        page: '3',
+        size: '25',
+      })
+    );
+
+    expect(state).toEqual({
+      searchTerm: 'valve',
+      sort: { field: 'auditNumber', direction: 'desc' },
+      filters: [
+        { field: 'state', operator: 'equals', value: 'NC' },
+        { field: 'auditNumber', operator: 'greaterThan', value: 24000 },
+      ],
+      pageNumber: 3,
+      pageSize: 25,
+    });
+  });
+
+  it('should ignore values the table cannot apply', () => {
+    const state = readTableUrlState(
+      config,
+      convertToParamMap({
+        sort: 'state:asc',
+        filter: ['unknown:equals:"x"', 'state:matches:"NC"', 'state:equals:{broken', 'no-separators'],
+        page: 'abc',
+        size: '7',
+      })
+    );
+
+    expect(state).toEqual({});
+  });
+
+  it('should ignore an invalid sort direction and the first page', () => {
+    expect(readTableUrlState(config, convertToParamMap({ sort: 'auditNumber:up', page: '1' }))).toEqual({});
+  });
+
+  it('should ignore the search term of tables without search', () => {
+    expect(readTableUrlState({ ...config, searchable: false }, convertToParamMap({ q: 'valve' }))).toEqual({});
+  });
+
+  it('should return nothing when URL state is disabled', () => {
+    expect(readTableUrlState({ ...config, urlState: false }, convertToParamMap({ q: 'valve', page: '2' }))).toEqual({});
+  });
+
+  it('should read prefixed params', () => {
+    const prefixed = { ...config, urlState: { prefix: 'audits' } };
+    const state = readTableUrlState(prefixed, convertToParamMap({ 'audits.q': 'valve', q: 'other' }));
+
+    expect(state).toEqual({ searchTerm: 'valve' });
+  });
+});
+
+describe('toTableUrlParams', () => {
+  it('should map default values to null so they are removed from the URL', () => {
+    expect(toTableUrlParams(config, defaultQuery)).toEqual({
+      q: null,
+      sort: null,
+      filter: null,
+      page: null,
+      size: null,
+    });
+  });
+
+  it('should encode the table state', () => {
+    const params = toTableUrlParams(config, {
+      pageNumber: 2,
+      pageSize: 50,
+      searchTerm: 'valve',
+      filters: [{ field: 'state', operator: 'equals', value: 'NC' }],
+      sort: { field: 'startDate', direction: 'asc' },
+    });
+
+    expect(params).toEqual({
+      q: 'valve',
+      sort: 'startDate:asc',
+      filter: ['state:equals:"NC"'],
+      page: 2,
+      size: 50,
+    });
+  });
+
+  it('should use the configured default page size and prefix', () => {
+    const params = toTableUrlParams({ ...config, defaultPageSize: 25, urlState: { prefix: 'audits' } }, {
+      ...defaultQuery,
+      pageSize: 25,
+    });
+
+    expect(params['audits.size']).toBeNull();
+  });
+
+  it('should round-trip through readTableUrlState', () => {
+    const query: TableQueryParams<Audit> = {
+      pageNumber: 4,
+      pageSize: 100,
+      searchTerm: 'pump: "B"',
+      filters: [
+        { field: 'state', operator: 'contains', value: 'a:b' },
+        { field: 'startDate', operator: 'between', value: { from: '2024-01-01', to: '2024-03-31' } },
+      ],
+      sort: { field: 'auditNumber', direction: 'asc' },
+    };
+
+    expect(readTableUrlState(config, convertToParamMap(toTableUrlParams(config, query)))).toEqual(query);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('should compare numbers', () => {
+    expect(matchesFilter(24001, { field: 'auditNumber', operator: 'greaterThan', value: 24000 })).toBe(true);
+    expect(matchesFilter('24001', { field: 'auditNumber', operator: 'lessThan', value: 24000 })).toBe(false);
+    expect(matchesFilter('n/a', { field: 'auditNumber', operator: 'greaterThan', value: 24000 })).toBe(false);
+  });
+
+  it('should compare dates and date strings', () => {
+    const filter = { field: 'startDate', operator: 'greaterThan' as const, value: new Date(2024, 0, 1) };
+
+    expect(matchesFilter(new Date(2024, 5, 1), filter)).toBe(true);
+    expect(matchesFilter('2023-06-01T00:00:00', filter)).toBe(false);
+    expect(matchesFilter(null, filter)).toBe(false);
+  });
+
+  it('should compare strings', () => {
+    expect(matchesFilter('b', { field: 'state', operator: 'greaterThan', value: 'a' })).toBe(true);
+    expect(matchesFilter(2, { field: 'state', operator: 'lessThan', value: 'a' })).toBe(false);
+  });
+
+  it('should match a day range', () => {
+    const filter = { field: 'startDate', operator: 'between' as const, value: { from: '2024-01-01', to: '2024-01-31' } };
+
+    expect(matchesFilter('2024-01-31T23:00:00', filter)).toBe(true);
+    expect(matchesFilter('2024-02-01T00:00:00', filter)).toBe(false);
+    expect(matchesFilter('', filter)).toBe(false);
+  });
+});
+
+describe('saveColumnLayout', () => {
+  afterEach(() => localStorage.clear());
+
+  it('should keep a layout per account', () => {
+    saveColumnLayout('audits', 'account-a', { order: ['state'], visibility: {}, widths: {} });
+    saveColumnLayout('audits', 'account-b', { order: ['startDate'], visibility: {}, widths: {} });
+
+    expect(loadColumnLayout('audits', 'account-a')?.order).toEqual(['state']);
+    expect(loadColumnLayout('audits', 'account-b')?.order).toEqual(['startDate']);
+
+    clearColumnLayout('audits', 'account-a');
+    expect(loadColumnLayout('audits', 'account-a')).toBeNull();
+    expect(loadColumnLayout('audits', 'account-b')).not.toBeNull();
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * Data Table Utilities
+ *
+ * Helpers for wiring server-side tables to paginated API responses,
+ * for persisting table state in the URL and column layouts in local storage,
+ * and for running bulk actions
+ */
+
+import { ParamMap, Params } from '@angular/router';
+
+import { ExportCell, ExportSheet } from '../../utils/export.utils';
+
+import {
+  BulkOperationResult,
+  ColumnLayout,
+  ColumnType,
+  DateRangeFilterValue,
+  FilterOperator,
+  PaginationState,
+  TableAggregate,
+  TableColumn,
+  TableConfig,
+  TableFilter,
+  TableGroup,
+  TableGroupAggregate,
+  TablePage,
+  TableQueryParams,
+  TableSort,
+} from './data-table.types';
+
+/**
+ * Default page size used when the config does not define one
+ */
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Shape shared by all PaginatedResponseOf* API payloads
+ */
+export interface PaginatedResponseLike {
+  totalCount?: number;
+  pageNumber?: number;
+  pageSize?: number;
+  totalPages?: number;
+  hasNextPage?: boolean;
+}
+
+/**
+ * Page size used to load a full server-side result set page by page
+ */
+export const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Default page size options used when the config does not define them
+ */
+export const DEFAULT_PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+/**
+ * Filter operators offered for each column type (the first one is the default)
+ */
+export const FILTER_OPERATORS_BY_TYPE: Record<ColumnType, FilterOperator[]> = {
+  text: ['contains', 'equals', 'startsWith', 'endsWith'],
+  number: ['equals', 'greaterThan', 'lessThan'],
+  date: ['between'],
+  boolean: ['equals'],
+};
+
+/**
+ * Human-readable filter operator names
+ */
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  greaterThan: 'greater than',
+  lessThan: 'less than',
+  between: 'between',
+};
+
+const FILTER_OPERATORS = Object.keys(FILTER_OPERATOR_LABELS) as FilterOperator[];
+
+/**
+ * Create the initial query parameters for a server-side table
+ *
+ * @param queryParamMap - Current route query params; restores the URL state of tables with `urlState` enabled
+ */
+export function createTableQueryParams<T>(config: TableConfig<T>, queryParamMap?: ParamMap): TableQueryParams<T> {
+  return {
+    pageNumber: 1,
+    pageSize: config.defaultPageSize || DEFAULT_PAGE_SIZE,
+    searchTerm: '',
+    filters: [],
+    sort: null,
+    ...(queryParamMap ? readTableUrlState(config, queryParamMap) : {}),
+  };
+}
+
+/**
+ * Query param names used for a table's URL state
+ */
+function getUrlParamNames<T>(config: TableConfig<T>) {
+  const prefix = typeof config.urlState === 'object' && config.urlState.prefix ? `${config.urlState.prefix}.` : '';
+  return {
+    search: `${prefix}q`,
+    sort: `${prefix}sort`,
+    filter: `${prefix}filter`,
+    page: `${prefix}page`,
+    size: `${prefix}size`,
+  };
+}
+
+/**
+ * Read a table's state from route query params
+ *
+ * Only values the table can apply are returned: the sort field must be a sortable column,
+ * filter fields must be columns and the page size must be one of the offered options.
+ * Returns an empty object when `urlState` is not enabled.
+ *
+ * Format: `?q=valve&sort=auditNumber:desc&filter=state:equals:"NC"&page=3&size=25`
+ */
+export function readTableUrlState<T>(config: TableConfig<T>, params: ParamMap): Partial<TableQueryParams<T>> {
+  if (!config.urlState) return {};
+
+  const names = getUrlParamNames(config);
+  const state: Partial<TableQueryParams<T>> = {};
+
+  const search = params.get(names.search);
+  if (search && config.searchable) {
+    state.searchTerm = search;
+  }
+
+  const [sortField, direction] = (params.get(names.sort) ?? '').split(':');
+  const sortColumn = config.columns.find((col) => col.sortable && String(col.field) === sortField);
+  if (sortColumn && (direction === 'asc' || direction === 'desc')) {
+    state.sort = { field: sortColumn.field, direction } as TableSort<T>;
+  }
+
+  const filters = params
+    .getAll(names.filter)
+    .map((value) => parseUrlFilter(config, value))
+    .filter((filter): filter is TableFilter<T> => filter !== null);
+  if (filters.length > 0) {
+    state.filters = filters;
+  }
+
+  const page = Number(params.get(names.page));
+  if (Number.isInteger(page) && page > 1) {
+    state.pageNumber = page;
+  }
+
+  const size = Number(params.get(names.size));
+  if ((config.pageSizeOptions ?? DEFAULT_PAGE_SIZE_OPTIONS).includes(size)) {
+    state.pageSize = size;
+  }
+
+  return state;
+}
+
+/**
+ * Build the query params representing a table's state
+ *
+ * Default values map to `null`, so merging the result into the current URL
+ * removes them and leaves unrelated query params untouched.
+ */
+export function toTableUrlParams<T>(config: TableConfig<T>, state: TableQueryParams<T>): Params {
+  const names = getUrlParamNames(config);
+  const defaultPageSize = config.defaultPageSize || DEFAULT_PAGE_SIZE;
+
+  return {
+    [names.search]: state.searchTerm || null,
+    [names.sort]: state.sort?.direction ? `${String(state.sort.field)}:${state.sort.direction}` : null,
+    [names.filter]: state.filters.length
+      ? state.filters.map((f) => `${String(f.field)}:${f.operator}:${JSON.stringify(f.value)}`)
+      : null,
+    [names.page]: state.pageNumber > 1 ? state.pageNumber : null,
+    [names.size]: state.pageSize !== defaultPageSize ? state.pageSize : null,
+  };
+}
+
+/**
+ * Parse a `field:operator:value` filter param (value is JSON encoded)
+ */
+function parseUrlFilter<T>(config: TableConfig<T>, param: string): TableFilter<T> | null {
+  const match = /^([^:]+):([^:]+):(.*)$/.exec(param);
+  if (!match) return null;
+
+  const [, field, operator, rawValue] = match;
+  const column = config.columns.find((col) => String(col.field) === field);
+  if (!column || !FILTER_OPERATORS.includes(operator as FilterOperator)) return null;
+
+  try {
+    return { field: column.field, operator: operator as FilterOperator, value: JSON.parse(rawValue) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a paginated API response to the pagination state rendered by the table
+ */
+export function toPaginationState(
+  response: PaginatedResponseLike | null | undefined
+): PaginationState | null {
+  if (!response) return null;
+
+  const pageSize = response.pageSize ?? DEFAULT_PAGE_SIZE;
+  const totalCount = response.totalCount ?? 0;
+
+  return {
+    pageNumber: response.pageNumber ?? 1,
+    pageSize,
+    totalCount,
+    totalPages: response.totalPages ?? Math.ceil(totalCount / pageSize),
+  };
+}
+
+/**
+ * Next page number of a paginated API response, or undefined on the last page
+ * Use as `getNextPageParam` of an infinite query.
+ */
+export function getNextPageNumber(response: PaginatedResponseLike | null | undefined): number | undefined {
+  return response?.hasNextPage ? (response.pageNumber ?? 1) + 1 : undefined;
+}
+
+/**
+ * Check whether a row value passes a filter
+ * Text comparisons are case-insensitive; dates are compared by calendar day.
+ */
+export function matchesFilter(value: unknown, filter: TableFilter): boolean {
+  const filterValue = filter.value;
+
+  switch (filter.operator) {
+    case 'equals':
+      if (typeof filterValue === 'boolean') return !!value === filterValue;
+      if (typeof filterValue === 'string') return String(value ?? '').toLowerCase() === filterValue.toLowerCase();
+      return value === filterValue;
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(String(filterValue).toLowerCase());
+    case 'startsWith':
+      return String(value ?? '').toLowerCase().startsWith(String(filterValue).toLowerCase());
+    case 'endsWith':
+      return String(value ?? '').toLowerCase().endsWith(String(filterValue).toLowerCase());
+    case 'greaterThan':
+      return compareToFilterValue(value, filterValue) > 0;
+    case 'lessThan':
+      return compareToFilterValue(value, filterValue) < 0;
+    case 'between': {
+      const { from, to } = (filterValue ?? {}) as DateRangeFilterValue;
+      const day = toDateKey(value);
+      if (!day) return false;
+      return (!from || day >= from) && (!to || day <= to);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Describe a filter for display, e.g. `Status contains "review"` or `Uploaded from 2024-01-01`
+ */
+export function formatFilterLabel<T>(filter: TableFilter<T>, column?: TableColumn<T>): string {
+  const label = column?.label ?? String(filter.field);
+  const value = filter.value;
+
+  if (filter.operator === 'between') {
+    const { from, to } = (value ?? {}) as DateRangeFilterValue;
+    if (from && to) return `${label} ${from} – ${to}`;
+    return from ? `${label} from ${from}` : `${label} until ${to}`;
+  }
+
+  if (typeof value === 'boolean') {
+    return `${label}: ${value ? 'Yes' : 'No'}`;
+  }
+
+  const formatted = typeof value === 'string' ? `"${value}"` : String(value);
+  return `${label} ${FILTER_OPERATOR_LABELS[filter.operator]} ${formatted}`;
+}
+
+/**
+ * Local storage key prefix of saved column layouts
+ */
+const COLUMN_LAYOUT_STORAGE_PREFIX = 'dataTable.columns.';
+
+/**
+ * Local storage key of a column layout, per signed-in account so users sharing a browser keep their own
+ */
+function getColumnLayoutStorageKey(tableId: string, accountId: string): string {
+  return `${COLUMN_LAYOUT_STORAGE_PREFIX}${accountId}.${tableId}`;
+}
+
+/**
+ * Narrowest width a column can be resized to (px)
+ */
+export const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * Key identifying a column in a column layout
+ */
+export function getColumnKey<T>(column: TableColumn<T>): string {
+  return String(column.field);
+}
+
+/**
+ * Layout without user changes (the config-defined layout)
+ */
+export function createDefaultColumnLayout(): ColumnLayout {
+  return { order: [], visibility: {}, widths: {} };
+}
+
+/**
+ * Apply a column layout: reorder the columns and resolve their visibility and width
+ * Columns not in the saved order (e.g. added to the config later) keep their config position.
+ */
+export function applyColumnLayout<T>(columns: TableColumn<T>[], layout: ColumnLayout): TableColumn<T>[] {
+  const byKey = new Map(columns.map((column) => [getColumnKey(column), column]));
+  const ordered = [...new Set(layout.order)]
+    .filter((key) => byKey.has(key))
+    .map((key) => byKey.get(key)!);
+
+  columns.forEach((column, index) => {
+    if (ordered.includes(column)) return;
+    // Place the column right after its config predecessor
+    const previous = index > 0 ? ordered.indexOf(columns[index - 1]) : -1;
+    ordered.splice(previous + 1, 0, column);
+  });
+
+  return ordered.map((column) => {
+    const key = getColumnKey(column);
+    const visible = column.hideable === false ? column.visible : (layout.visibility[key] ?? column.visible);
+    const width = layout.widths[key];
+    return { ...column, visible, width: width ? `${width}px` : column.width };
+  });
+}
+
+/**
+ * Read a saved column layout (null when none is saved or it can't be read)
+ */
+export function loadColumnLayout(tableId: string, accountId: string): ColumnLayout | null {
+  try {
+    const raw = localStorage.getItem(getColumnLayoutStorageKey(tableId, accountId));
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw) as Partial<ColumnLayout>;
+    const layout = createDefaultColumnLayout();
+    if (Array.isArray(parsed.order)) {
+      layout.order = parsed.order.filter((key): key is string => typeof key === 'string');
+    }
+    for (const [key, visible] of Object.entries(parsed.visibility ?? {})) {
+      if (typeof visible === 'boolean') layout.visibility[key] = visible;
+    }
+    for (const [key, width] of Object.entries(parsed.widths ?? {})) {
+      if (typeof width === 'number' && width >= MIN_COLUMN_WIDTH) layout.widths[key] = Math.round(width);
+    }
+    return layout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a column layout (storage errors, e.g. a full quota, are ignored)
+ */
+export function saveColumnLayout(tableId: string, accountId: string, layout: ColumnLayout): void {
+  try {
+    localStorage.setItem(getColumnLayoutStorageKey(tableId, accountId), JSON.stringify(layout));
+  } catch {
+    // The layout still applies for this session
+  }
+}
+
+/**
+ * Remove a saved column layout
+ */
+export function clearColumnLayout(tableId: string, accountId: string): void {
+  try {
+    localStorage.removeItem(getColumnLayoutStorageKey(tableId, accountId));
+  } catch {
+    // Nothing saved
+  }
+}
+
+/**
+ * Load every page of a paginated endpoint
+ * `onProgress` is called after each page with the rows loaded so far and the total.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (pageNumber: number, pageSize: number) => Promise<TablePage<T>>,
+  options: {
+    pageSize?: number;
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total: number) => void;
+  } = {}
+): Promise<T[]> {
+  const pageSize = options.pageSize ?? FETCH_ALL_PAGE_SIZE;
+  const rows: T[] = [];
+
+  for (let pageNumber = 1; ; pageNumber++) {
+    options.signal?.throwIfAborted();
+    const page = await fetchPage(pageNumber, pageSize);
+    const items = page.items ?? [];
+    rows.push(...items);
+
+    const total = page.totalCount ?? rows.length;
+    options.onProgress?.(rows.length, total);
+
+    const totalPages = page.totalPages ?? Math.ceil(total / pageSize);
+    if (pageNumber >= totalPages || items.length === 0) return rows;
+  }
+}
+
+/**
+ * Value of a cell as written to an export
+ * Dates stay Date (so spreadsheets get real dates), other values go through the column `format`.
+ */
+export function getExportValue<T>(row: T, column: TableColumn<T>): ExportCell {
+  const value = row[column.field];
+
+  if (column.exportValue) return column.exportValue(value, row);
+  if (value instanceof Date) return value;
+  if (column.type === 'date' && typeof value === 'string' && value) {
+    // Date-only strings are parsed as UTC by Date; keep them on the same local day
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    const date = dateOnly ? new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]) : new Date(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  if (column.format) return column.format(value, row);
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+/**
+ * Build an export sheet from table columns and rows (columns with `exportable: false` are left out)
+ */
+export function toExportSheet<T>(columns: TableColumn<T>[], rows: T[], name?: string): ExportSheet {
+  const exported = columns.filter((col) => col.exportable !== false);
+  return {
+    name,
+    headers: exported.map((col) => col.label),
+    rows: rows.map((row) => exported.map((col) => getExportValue(row, col))),
+  };
+}
+
+/**
+ * Labels of the group header aggregates
+ */
+export const AGGREGATE_LABELS: Record<TableAggregate, string> = {
+  sum: 'Sum',
+  avg: 'Avg',
+  min: 'Min',
+  max: 'Max',
+};
+
+/**
+ * Group rows by the value of a column, groups in ascending value order (empty values last)
+ * Rows keep their order within a group. `aggregateColumns` fill each group's aggregates.
+ */
+export function groupRows<T>(
+  rows: T[],
+  column: TableColumn<T>,
+  aggregateColumns: TableColumn<T>[] = []
+): TableGroup<T>[] {
+  const groups = new Map<string, { value: unknown; rows: T[] }>();
+  for (const row of rows) {
+    const value = row[column.field];
+    const key = value instanceof Date ? value.toISOString() : String(value ?? '');
+    const group = groups.get(key) ?? groups.set(key, { value, rows: [] }).get(key)!;
+    group.rows.push(row);
+  }
+
+  const compare = (a: unknown, b: unknown): number => {
+    if (a === null || a === undefined || a === '') return b === null || b === undefined || b === '' ? 0 : 1;
+    if (b === null || b === undefined || b === '') return -1;
+    if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b, undefined, { numeric: true });
+    return a > b ? 1 : a < b ? -1 : 0;
+  };
+
+  return [...groups.entries()]
+    .sort(([, a], [, b]) => compare(a.value, b.value))
+    .map(([key, { value, rows: members }]) => ({
+      key,
+      label:
+        value === null || value === undefined || value === ''
+          ? 'None'
+          : column.format
+            ? column.format(value, members[0])
+            : String(value),
+      rows: members,
+      aggregates: aggregateColumns.flatMap((col) => aggregateColumn(members, col)),
+    }));
+}
+
+/**
+ * Aggregates of a column over some rows, skipping empty and non-numeric values
+ * Min / max also apply to dates (Date values, or date strings in `type: 'date'` columns).
+ */
+export function aggregateColumn<T>(rows: T[], column: TableColumn<T>): TableGroupAggregate[] {
+  const aggregates = ([] as TableAggregate[]).concat(column.aggregate ?? []);
+  if (aggregates.length === 0) return [];
+
+  let dates = false;
+  const values: number[] = [];
+  for (const row of rows) {
+    const value = row[column.field];
+    if (value instanceof Date || (column.type === 'date' && typeof value === 'string' && value)) {
+      const time = new Date(value as Date | string).getTime();
+      if (!Number.isNaN(time)) {
+        dates = true;
+        values.push(time);
+      }
+    } else if (typeof value === 'number' && !Number.isNaN(value)) {
+      values.push(value);
+    }
+  }
+  if (values.length === 0) return [];
+
+  return aggregates
+    .filter((aggregate) => !dates || aggregate === 'min' || aggregate === 'max')
+    .map((aggregate) => {
+      let value: number;
+      switch (aggregate) {
+        case 'sum':
+          value = values.reduce((sum, v) => sum + v, 0);
+          break;
+        case 'avg':
+          value = values.reduce((sum, v) => sum + v, 0) / values.length;
+          break;
+        case 'min':
+          value = values.reduce((min, v) => Math.min(min, v));
+          break;
+        case 'max':
+          value = values.reduce((max, v) => Math.max(max, v));
+          break;
+      }
+      return { label: `${AGGREGATE_LABELS[aggregate]} ${column.label}`, value: dates ? new Date(value) : value };
+    });
+}
+
+/**
+ * Run an async operation for every item, a few at a time, collecting failures instead of stopping at the first
+ */
+export async function runBulkOperation<T>(
+  items: T[],
+  operation: (item: T) => Promise<unknown>,
+  concurrency = 4
+): Promise<BulkOperationResult<T>> {
+  const succeeded: T[] = [];
+  const failed: BulkOperationResult<T>['failed'] = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await operation(item);
+        succeeded.push(item);
+      } catch (error) {
+        failed.push({ item, error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return { succeeded, failed };
+}
+
+/**
+ * Compare a cell value to a number, Date or string filter value
+ * Returns NaN when the two can't be compared, so neither `> 0` nor `< 0` matches.
+ */
+function compareToFilterValue(value: unknown, filterValue: unknown): number {
+  if (typeof filterValue === 'number') {
+    return Number(value) - filterValue;
+  }
+
+  if (filterValue instanceof Date) {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+    return date ? date.getTime() - filterValue.getTime() : NaN;
+  }
+
+  if (typeof filterValue === 'string' && typeof value === 'string') {
+    return value === filterValue ? 0 : value > filterValue ? 1 : -1;
+  }
+
+  return NaN;
+}
+
+/**
+ * Local calendar day (`yyyy-mm-dd`) of a Date or date string, or null when not a date
+ */
+function toDateKey(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const date = value instanceof Date ? value : new Date(value as string);
+  if (Number.isNaN(date.getTime())) return null;
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
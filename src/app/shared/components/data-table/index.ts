@@ -3,4 +3,7 @@
  */
 
 export * from './data-table.component';
+export * from './column-filter.component';
+export * from './column-settings.component';
 export * from './data-table.types';
+export * from './data-table.utils';
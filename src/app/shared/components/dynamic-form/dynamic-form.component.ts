@@ -1,19 +1,38 @@
-import { Component, Input, Output, EventEmitter, OnInit, signal, computed } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges, OnInit, SimpleChanges, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FormGroup, FormControl, FormArray, ReactiveFormsModule, Validators, AbstractControl } from '@angular/forms';
+import {
+  FormGroup,
+  FormControl,
+  FormArray,
+  ReactiveFormsModule,
+  Validators,
+  AbstractControl,
+  AsyncValidatorFn,
+  ValidationErrors,
+} from '@angular/forms';
 import { z } from 'zod';
 import { FieldRendererComponent } from './field-renderer.component';
 import { ArrayFieldRendererComponent } from './array-field-renderer.component';
-import { DynamicFormConfig, FieldConfig } from './types';
-import { extractFieldsFromSchema, createZodValidator, evaluateCondition } from './zod-utils';
+import { DynamicFormConfig, FieldConfig, ServerFieldErrors } from './types';
+import {
+  extractFieldsFromSchema,
+  createAsyncFieldValidator,
+  createZodValidator,
+  evaluateCondition,
+  getObjectSchema,
+  parseFieldPath,
+} from './zod-utils';
 
 /**
  * Dynamic Form Component
  *
  * Automatically generates a form from a Zod schema with:
  * - Type inference
- * - Automatic validation
+ * - Automatic validation, including refinements across fields
+ * - Debounced async field validators (submit waits until they resolve)
  * - Customizable field configurations
+ * - Discriminated unions, with the fields of the selected variant swapped in
+ * - Server-side validation errors mapped onto fields
  * - Tailwind styling
  *
  * Usage:
@@ -21,6 +40,7 @@ import { extractFieldsFromSchema, createZodValidator, evaluateCondition } from '
  * <app-dynamic-form
  *   [config]="formConfig"
  *   [initialData]="userData"
+ *   [serverErrors]="validationErrors()"
  *   (formSubmit)="onSubmit($event)"
  *   (formCancel)="onCancel()"
  * />
@@ -32,11 +52,19 @@ import { extractFieldsFromSchema, createZodValidator, evaluateCondition } from '
   imports: [CommonModule, ReactiveFormsModule, FieldRendererComponent, ArrayFieldRendererComponent],
   templateUrl: './dynamic-form.component.html',
 })
-export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
+export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit, OnChanges {
   @Input() config!: DynamicFormConfig<T>;
   @Input() initialData?: Partial<z.infer<z.ZodObject<T>>>;
   @Input() loading = false;
 
+  /**
+   * Server-side validation errors keyed by field path (e.g. a ProblemDetails `errors` dictionary).
+   * Matched case-insensitively against controls; each error is shown inline and cleared
+   * when the user edits that field. Errors that match no field are listed above the form.
+   * Passing new errors (or null) replaces the ones shown before.
+   */
+  @Input() serverErrors?: ServerFieldErrors | null;
+
   @Output() formSubmit = new EventEmitter<z.infer<z.ZodObject<T>>>();
   @Output() formCancel = new EventEmitter<void>();
 
@@ -49,18 +77,55 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
   // Phase 3: Collapsed groups state
   private collapsedGroups = signal<Set<string>>(new Set());
 
+  // Server errors that don't belong to a single field
+  formErrors = signal<string[]>([]);
+
+  // Controls currently holding a server error
+  private serverErrorControls = new Set<AbstractControl>();
+
+  // Controls currently holding a refinement error
+  private refinedControls = new Set<AbstractControl>();
+
   ngOnInit(): void {
     this.initializeForm();
     this.initializeGroupsState();
+    this.applyServerErrors();
+  }
+
+  /**
+   * Rebuild the form when the config or initial data change after the first render,
+   * e.g. when another record is loaded into the same form, and re-apply the server errors
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!this.formGroup) {
+      return;
+    }
+
+    const rebuild = !!(changes['config'] || changes['initialData']);
+    if (rebuild) {
+      this.initializeForm();
+      if (changes['config']) {
+        this.initializeGroupsState();
+        this.currentStep.set(0);
+      }
+    }
+
+    if (rebuild || changes['serverErrors']) {
+      this.applyServerErrors();
+    }
   }
 
   /**
    * Initialize the form from the schema
    */
   private initializeForm(): void {
+    this.refinedControls = new Set();
+    this.serverErrorControls = new Set();
+
     // Extract field configurations from schema
+    const schema = getObjectSchema(this.config.schema);
     const extractedFields = extractFieldsFromSchema(
-      this.config.schema,
+      schema,
       this.config.fields
     );
     this.fields.set(extractedFields);
@@ -69,7 +134,7 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     const formControls: Record<string, AbstractControl> = {};
 
     for (const field of extractedFields) {
-      const zodType = this.config.schema.shape[field.name as keyof T];
+      const zodType = schema.shape[field.name as keyof T];
       const initialValue = this.getInitialValue(field);
 
       // Phase 2: Handle array fields
@@ -84,6 +149,12 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
         continue;
       }
 
+      // Handle discriminated union fields
+      if (field.type === 'union') {
+        formControls[field.name] = this.createVariantFormGroup(field, initialValue);
+        continue;
+      }
+
       // Create validators
       const validators = [createZodValidator(zodType)];
 
@@ -94,11 +165,58 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
 
       formControls[field.name] = new FormControl(initialValue, {
         validators,
+        asyncValidators: this.getAsyncValidators(field),
         nonNullable: field.required,
       });
     }
 
     this.formGroup = new FormGroup(formControls);
+
+    // Refinements need the whole value, so they run on the form group
+    if (this.config.schema !== schema) {
+      this.formGroup.addValidators((control) => this.validateRefinements(control));
+      this.formGroup.updateValueAndValidity();
+    }
+  }
+
+  /**
+   * Validate the form value against the refined schema
+   * Field constraints are checked by the controls themselves; refinement issues are set
+   * as a `refine` error on the control named in their `path` and cleared once resolved.
+   * Issues without a matching control become an error of the form.
+   */
+  private validateRefinements(form: AbstractControl): ValidationErrors | null {
+    const result = this.config.schema.safeParse(this.getFormValue(form));
+    const issues = result.success ? [] : result.error.issues.filter((issue) => issue.code === z.ZodIssueCode.custom);
+
+    const messages = new Map<AbstractControl, string[]>();
+    const unmatched: string[] = [];
+
+    for (const issue of issues) {
+      const control = issue.path.length > 0 ? this.findControl(issue.path.join('.'), form) : null;
+      if (control) {
+        messages.set(control, [...(messages.get(control) ?? []), issue.message]);
+      } else {
+        unmatched.push(issue.message);
+      }
+    }
+
+    for (const control of new Set([...this.refinedControls, ...messages.keys()])) {
+      const { refine: _, ...errors } = control.errors ?? {};
+      const message = messages.get(control);
+      const updated = message ? { ...errors, refine: message.join(' ') } : errors;
+      control.setErrors(Object.keys(updated).length > 0 ? updated : null, { emitEvent: false });
+    }
+    this.refinedControls = new Set(messages.keys());
+
+    return unmatched.length > 0 ? { refine: unmatched } : null;
+  }
+
+  /**
+   * Get refinement errors of the form that match no field, once the user has edited the form
+   */
+  getRefinementErrors(): string[] {
+    return this.formGroup.dirty ? (this.formGroup.errors?.['refine'] ?? []) : [];
   }
 
   /**
@@ -145,6 +263,7 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
 
       formControls[nestedField.name] = new FormControl(value, {
         validators,
+        asyncValidators: this.getAsyncValidators(nestedField),
         nonNullable: nestedField.required,
       });
     }
@@ -152,6 +271,73 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     return new FormGroup(formControls);
   }
 
+  /**
+   * Create a FormGroup for a discriminated union field
+   * It holds the discriminator control; the controls of the selected variant
+   * are swapped in whenever the discriminator changes.
+   */
+  private createVariantFormGroup(field: FieldConfig, initialValue: any): FormGroup {
+    const discriminator = field.discriminator!;
+    const values = (field.variants || []).map((variant) => variant.value);
+    const validators = field.required
+      ? [createZodValidator(z.string().refine((value) => values.includes(value), `${discriminator.label} is required`))]
+      : [];
+
+    const discriminatorControl = new FormControl(initialValue?.[discriminator.name] ?? '', { validators });
+    const group = new FormGroup<Record<string, AbstractControl>>({ [discriminator.name]: discriminatorControl });
+    this.setVariantControls(group, field, initialValue || {});
+
+    discriminatorControl.valueChanges.subscribe(() => this.setVariantControls(group, field, group.getRawValue()));
+
+    return group;
+  }
+
+  /**
+   * Replace the variant controls of a union FormGroup with those of the selected variant
+   * Values of fields that the variants share are carried over.
+   */
+  private setVariantControls(group: FormGroup, field: FieldConfig, values: Record<string, any>): void {
+    const discriminator = field.discriminator!.name;
+    const variant = field.variants?.find((option) => option.value === group.get(discriminator)?.value);
+
+    for (const name of Object.keys(group.controls)) {
+      if (name !== discriminator) {
+        group.removeControl(name, { emitEvent: false });
+      }
+    }
+
+    for (const variantField of variant?.fields || []) {
+      const validators = [createZodValidator(variant!.schema.shape[variantField.name])];
+
+      if (variantField.required) {
+        validators.push(Validators.required);
+      }
+
+      const value = variantField.name in values ? values[variantField.name] : this.getInitialValue(variantField);
+
+      group.addControl(
+        variantField.name,
+        new FormControl(value, {
+          validators,
+          asyncValidators: this.getAsyncValidators(variantField),
+          nonNullable: variantField.required,
+        }),
+        { emitEvent: false }
+      );
+    }
+
+    group.updateValueAndValidity();
+  }
+
+  /**
+   * Get the debounced async validator of a field, if it has async checks
+   */
+  private getAsyncValidators(field: FieldConfig): AsyncValidatorFn[] {
+    return field.asyncValidators?.length
+      ? [createAsyncFieldValidator(field.asyncValidators, field.asyncDebounce)]
+      : [];
+  }
+
   /**
    * Get initial value for a field
    */
@@ -166,12 +352,12 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     }
 
     // Phase 2: Handle array defaults
-    if (field.type === 'array') {
+    if (field.type === 'array' || field.type === 'multi-select' || field.type === 'tags') {
       return [];
     }
 
     // Phase 2: Handle object defaults
-    if (field.type === 'object') {
+    if (field.type === 'object' || field.type === 'union') {
       return {};
     }
 
@@ -228,10 +414,86 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     return group.get(fieldName) as FormControl;
   }
 
+  /**
+   * Get the fields of the selected variant of a union field
+   */
+  getVariantFields(field: FieldConfig): FieldConfig[] {
+    const value = this.getNestedControl(field.name, field.discriminator!.name).value;
+    return field.variants?.find((variant) => variant.value === value)?.fields || [];
+  }
+
+  /**
+   * Set server errors on the matching controls, replacing the previously applied ones
+   * Validators re-run on the next value change, which replaces the `server` error.
+   */
+  private applyServerErrors(): void {
+    for (const control of this.serverErrorControls) {
+      const { server: _, ...errors } = control.errors ?? {};
+      control.setErrors(Object.keys(errors).length > 0 ? errors : null);
+    }
+    this.serverErrorControls = new Set();
+
+    const unmatched: string[] = [];
+
+    for (const [path, value] of Object.entries(this.serverErrors ?? {})) {
+      const messages = (Array.isArray(value) ? value : [value]).filter(Boolean);
+      if (messages.length === 0) continue;
+
+      const control = this.findControl(path);
+      if (control instanceof FormControl) {
+        control.setErrors({ server: messages.join(' '), ...control.errors });
+        control.markAsTouched();
+        this.serverErrorControls.add(control);
+      } else {
+        unmatched.push(...messages);
+      }
+    }
+
+    this.formErrors.set(unmatched);
+  }
+
+  /**
+   * Resolve a server error path to a control
+   * Segments are matched case-insensitively; a leading segment that matches no control
+   * (e.g. the request DTO name in `request.SupplierNumber`) is skipped.
+   */
+  private findControl(path: string, root: AbstractControl = this.formGroup): AbstractControl | null {
+    const segments = parseFieldPath(path);
+    const resolve = (parts: Array<string | number>): AbstractControl | null => {
+      let control: AbstractControl | null = root;
+
+      for (const segment of parts) {
+        if (control instanceof FormArray && typeof segment === 'number') {
+          control = control.at(segment) ?? null;
+        } else if (control instanceof FormGroup) {
+          const key: string | undefined = Object.keys(control.controls).find(
+            (name) => name.toLowerCase() === String(segment).toLowerCase()
+          );
+          control = key !== undefined ? control.controls[key] : null;
+        } else {
+          return null;
+        }
+
+        if (!control) return null;
+      }
+
+      return parts.length > 0 ? control : null;
+    };
+
+    return resolve(segments) ?? (segments.length > 1 ? resolve(segments.slice(1)) : null);
+  }
+
   /**
    * Handle form submission
    */
   onSubmit(): void {
+    // Wait for async checks (the submit button is disabled meanwhile)
+    if (this.formGroup.pending) {
+      return;
+    }
+
+    this.formErrors.set([]);
+
     if (this.formGroup.invalid) {
       // Mark all fields as touched to show errors
       Object.keys(this.formGroup.controls).forEach((key) => {
@@ -242,7 +504,7 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     }
 
     // Parse with Zod to ensure type safety
-    const result = this.config.schema.safeParse(this.formGroup.getRawValue());
+    const result = this.config.schema.safeParse(this.getFormValue(this.formGroup));
 
     if (result.success) {
       this.formSubmit.emit(result.data);
@@ -252,6 +514,22 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     }
   }
 
+  /**
+   * Get the form value to parse with the schema
+   * Optional unions without a selected variant are left out.
+   */
+  private getFormValue(form: AbstractControl): Record<string, any> {
+    const value = form.getRawValue();
+
+    for (const field of this.fields()) {
+      if (field.type === 'union' && !value[field.name]?.[field.discriminator!.name]) {
+        delete value[field.name];
+      }
+    }
+
+    return value;
+  }
+
   /**
    * Handle form cancellation
    */
@@ -342,7 +620,7 @@ export class DynamicFormComponent<T extends z.ZodRawShape> implements OnInit {
     const stepFields = step.fields;
     for (const fieldName of stepFields) {
       const control = this.formGroup.get(fieldName);
-      if (control && control.invalid) {
+      if (control && (control.invalid || control.pending)) {
         control.markAsTouched();
         return false;
       }
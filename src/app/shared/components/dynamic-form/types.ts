@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { TemplateRef } from '@angular/core';
+import type { SelectOptionSource } from '../searchable-select';
 
 /**
  * Supported field types for dynamic forms
@@ -10,6 +11,8 @@ export type FieldType =
   | 'number'
   | 'select'
   | 'searchable-select'
+  | 'multi-select'  // Array of strings, chosen from the options as chips
+  | 'tags'  // Array of strings, typed as free-text chips (options are suggestions)
   | 'checkbox'
   | 'textarea'
   | 'date'
@@ -19,7 +22,8 @@ export type FieldType =
   | 'tel'
   | 'password'
   | 'object'  // Nested object
-  | 'array';  // Array of items
+  | 'array'  // Array of items
+  | 'union';  // Discriminated union of objects
 
 /**
  * Field configuration extracted from Zod schema
@@ -48,6 +52,10 @@ export interface FieldConfig {
   minItems?: number;
   maxItems?: number;
 
+  // Discriminated unions
+  discriminator?: FieldConfig; // Select for the discriminator key, one option per variant
+  variants?: FieldVariant[];
+
   // Phase 2: Conditional visibility
   condition?: FieldCondition;
 
@@ -64,6 +72,30 @@ export interface FieldConfig {
   // Searchable select
   loading?: boolean; // Loading state for async options
   searchable?: boolean; // Enable search functionality
+  optionSource?: SelectOptionSource; // Searched and paged on demand instead of `options` (also for multi-select and tags)
+
+  // Async validation (e.g. uniqueness checks against the API)
+  asyncValidators?: FieldAsyncValidator[];
+  asyncDebounce?: number; // Milliseconds without changes before the checks run (default: 400)
+}
+
+/**
+ * Async field validator, run once the value passes the schema
+ * Resolves with an error message, or null when the value is valid. The signal aborts
+ * when the value changes again before the check completes.
+ */
+export type FieldAsyncValidator = (value: any, signal: AbortSignal) => Promise<string | null>;
+
+/**
+ * One variant of a discriminated union field
+ */
+export interface FieldVariant {
+  /** Discriminator value selecting the variant */
+  value: string;
+  label: string;
+  schema: z.ZodObject<any>;
+  /** Fields of the variant, without the discriminator */
+  fields: FieldConfig[];
 }
 
 /**
@@ -102,11 +134,20 @@ export interface FormStep {
   validate?: boolean; // Validate step before proceeding (default: true)
 }
 
+/**
+ * Form schema: an object schema, optionally wrapped in `.refine()` / `.superRefine()`
+ * for checks across fields
+ */
+export type DynamicFormSchema<T extends z.ZodRawShape> =
+  | z.ZodObject<T>
+  | z.ZodEffects<z.ZodObject<T>>
+  | z.ZodEffects<z.ZodEffects<z.ZodObject<T>>>;
+
 /**
  * Configuration for the dynamic form
  */
 export interface DynamicFormConfig<T extends z.ZodRawShape> {
-  schema: z.ZodObject<T>;
+  schema: DynamicFormSchema<T>;
   fields?: Partial<Record<keyof T, Partial<FieldConfig>>>;
   submitLabel?: string;
   showCancel?: boolean;
@@ -123,3 +164,10 @@ export interface DynamicFormConfig<T extends z.ZodRawShape> {
   steps?: FormStep[];
   showStepProgress?: boolean; // Show progress indicator (default: true)
 }
+
+/**
+ * Server-side validation errors keyed by field path, as returned in a
+ * ProblemDetails `errors` dictionary. Nested and array paths are supported:
+ * `{ supplierNumber: ['Already exists'], 'contacts[0].email': ['Invalid email'] }`
+ */
+export type ServerFieldErrors = Record<string, string | string[]>;
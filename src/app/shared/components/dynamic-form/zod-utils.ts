@@ -1,5 +1,18 @@
+import { AbstractControl, AsyncValidatorFn, ValidationErrors } from '@angular/forms';
+import { Observable, of, switchMap, timer } from 'rxjs';
 import { z } from 'zod';
-import { FieldConfig, FieldType } from './types';
+import { DynamicFormSchema, FieldAsyncValidator, FieldConfig, FieldType, FieldVariant } from './types';
+
+/**
+ * Gets the object schema of a form schema, unwrapping refinements
+ */
+export function getObjectSchema<T extends z.ZodRawShape>(schema: DynamicFormSchema<T>): z.ZodObject<T> {
+  let innerType: z.ZodTypeAny = schema;
+  while (innerType instanceof z.ZodEffects) {
+    innerType = innerType.innerType();
+  }
+  return innerType as z.ZodObject<T>;
+}
 
 /**
  * Extracts field configurations from a Zod schema
@@ -36,10 +49,7 @@ function extractFieldConfig(name: string, zodType: z.ZodTypeAny): FieldConfig {
   };
 
   // Unwrap optional/nullable types
-  let innerType = zodType;
-  if (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable) {
-    innerType = zodType.unwrap();
-  }
+  const innerType = unwrapType(zodType);
 
   // Phase 2: Handle nested objects
   if (innerType instanceof z.ZodObject) {
@@ -72,6 +82,11 @@ function extractFieldConfig(name: string, zodType: z.ZodTypeAny): FieldConfig {
       };
     }
 
+    // Arrays of enum values pick from the enum options
+    if (itemType instanceof z.ZodEnum) {
+      config.options = itemType.options.map((value: string) => ({ value, label: value }));
+    }
+
     // Extract array constraints
     const checks = (innerType as any)._def._def?.minLength || (innerType as any)._def._def?.maxLength;
     if ((innerType as any)._def.minLength) {
@@ -82,6 +97,27 @@ function extractFieldConfig(name: string, zodType: z.ZodTypeAny): FieldConfig {
     }
   }
 
+  // Discriminated unions: a select for the discriminator, and the fields of each variant
+  const union = getUnionVariants(innerType);
+  if (union) {
+    config.variants = union.options.map((option): FieldVariant => {
+      const value = String((option.shape[union.discriminator] as z.ZodLiteral<unknown>).value);
+      return {
+        value,
+        label: option.description?.split('|')[0] || value,
+        schema: option,
+        fields: extractFieldsFromSchema(option).filter((field) => field.name !== union.discriminator),
+      };
+    });
+    config.discriminator = {
+      name: union.discriminator,
+      type: 'select',
+      label: formatLabel(union.discriminator),
+      required: config.required,
+      options: config.variants.map(({ value, label }) => ({ value, label })),
+    };
+  }
+
   // Extract validation constraints
   if (innerType instanceof z.ZodString) {
     const checks = (innerType as any)._def.checks || [];
@@ -143,10 +179,7 @@ function extractFieldConfig(name: string, zodType: z.ZodTypeAny): FieldConfig {
  */
 function inferFieldType(zodType: z.ZodTypeAny): FieldType {
   // Unwrap optional/nullable types
-  let innerType = zodType;
-  if (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable) {
-    innerType = zodType.unwrap();
-  }
+  const innerType = unwrapType(zodType);
 
   // Phase 2: Check for nested objects
   if (innerType instanceof z.ZodObject) {
@@ -155,7 +188,7 @@ function inferFieldType(zodType: z.ZodTypeAny): FieldType {
 
   // Phase 2: Check for arrays
   if (innerType instanceof z.ZodArray) {
-    return 'array';
+    return innerType.element instanceof z.ZodEnum ? 'multi-select' : 'array';
   }
 
   if (innerType instanceof z.ZodString) {
@@ -209,10 +242,85 @@ function inferFieldType(zodType: z.ZodTypeAny): FieldType {
     return 'date';
   }
 
+  if (innerType instanceof z.ZodUnion || innerType instanceof z.ZodDiscriminatedUnion) {
+    if (getUnionVariants(innerType)) {
+      return 'union';
+    }
+
+    // Other unions (e.g. `z.union([z.string().email(), z.literal('')])`) take the type of their first real option
+    const option = (innerType.options as z.ZodTypeAny[]).find((option) => !(option instanceof z.ZodLiteral));
+    if (option) {
+      return inferFieldType(option);
+    }
+  }
+
   // Default to text
   return 'text';
 }
 
+/**
+ * Unwraps optional/nullable types, including the `z.union([type, z.null()])` of generated schemas
+ */
+function unwrapType(zodType: z.ZodTypeAny): z.ZodTypeAny {
+  if (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable) {
+    return unwrapType(zodType.unwrap());
+  }
+
+  if (zodType instanceof z.ZodUnion) {
+    const options = withoutNullOptions(zodType.options);
+    if (options.length === 1) {
+      return unwrapType(options[0]);
+    }
+  }
+
+  return zodType;
+}
+
+/**
+ * Union options other than `z.null()` / `z.undefined()`
+ */
+function withoutNullOptions(options: readonly z.ZodTypeAny[]): z.ZodTypeAny[] {
+  return options.filter((option) => !(option instanceof z.ZodNull || option instanceof z.ZodUndefined));
+}
+
+/**
+ * Gets the discriminator key and object variants of a union
+ * Each variant needs a distinct literal under the key; for a plain `z.union` of objects
+ * the first key that satisfies this is used.
+ */
+function getUnionVariants(
+  zodType: z.ZodTypeAny
+): { discriminator: string; options: z.ZodObject<z.ZodRawShape>[] } | null {
+  let options: z.ZodTypeAny[];
+  if (zodType instanceof z.ZodDiscriminatedUnion) {
+    options = [...zodType.options];
+  } else if (zodType instanceof z.ZodUnion) {
+    options = withoutNullOptions(zodType.options);
+  } else {
+    return null;
+  }
+
+  if (options.length < 2 || !options.every((option) => option instanceof z.ZodObject)) {
+    return null;
+  }
+
+  const objects = options as z.ZodObject<z.ZodRawShape>[];
+  const isDiscriminator = (key: string) => {
+    const literals = objects.map((option) => option.shape[key]);
+    return (
+      literals.every((literal) => literal instanceof z.ZodLiteral) &&
+      new Set(literals.map((literal) => (literal as z.ZodLiteral<unknown>).value)).size === objects.length
+    );
+  };
+
+  const discriminator =
+    zodType instanceof z.ZodDiscriminatedUnion
+      ? [zodType.discriminator as string].find(isDiscriminator)
+      : Object.keys(objects[0].shape).find(isDiscriminator);
+
+  return discriminator ? { discriminator, options: objects } : null;
+}
+
 /**
  * Checks if a Zod type is optional
  */
@@ -249,6 +357,40 @@ export function createZodValidator(zodType: z.ZodTypeAny) {
   };
 }
 
+/**
+ * Creates a debounced FormControl async validator from a field's async validators
+ * Empty values are not checked. A failed check (e.g. a network error) doesn't block the form;
+ * the server still validates on submit.
+ */
+export function createAsyncFieldValidator(validators: FieldAsyncValidator[], debounce = 400): AsyncValidatorFn {
+  return (control: AbstractControl) => {
+    const value = control.value;
+    if (value === null || value === undefined || value === '') {
+      return of(null);
+    }
+
+    // Angular unsubscribes when the value changes, which cancels the timer or aborts the requests
+    return timer(debounce).pipe(
+      switchMap(
+        () =>
+          new Observable<ValidationErrors | null>((subscriber) => {
+            const controller = new AbortController();
+
+            Promise.all(validators.map((validator) => validator(value, controller.signal)))
+              .then((messages) => {
+                const message = messages.find(Boolean);
+                subscriber.next(message ? { async: message } : null);
+              })
+              .catch(() => subscriber.next(null))
+              .finally(() => subscriber.complete());
+
+            return () => controller.abort();
+          })
+      )
+    );
+  };
+}
+
 /**
  * Evaluates a field condition against form values
  * Phase 2: Conditional field visibility
@@ -295,3 +437,15 @@ export function evaluateCondition(
       return true;
   }
 }
+
+/**
+ * Split a field path into segments
+ * Accepts dot and bracket notation: `contacts[0].email`, `contacts.0.email`, `$.Contacts[0].Email`
+ */
+export function parseFieldPath(path: string): Array<string | number> {
+  return path
+    .replace(/^\$\.?/, '')
+    .split(/[.[\]]/)
+    .filter((segment) => segment !== '')
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
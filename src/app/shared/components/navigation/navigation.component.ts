@@ -2,18 +2,21 @@ import { Component, signal, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule, Router } from '@angular/router';
 import { environment } from '../../../../environments/environment';
+import { HasPermissionDirective } from '../../../core/auth/has-permission.directive';
+import { AuthRequirement } from '../../../core/auth/auth.types';
 
 export interface NavItem {
   label: string;
   icon: string;
   route: string;
   badge?: string;
+  permission?: AuthRequirement;
 }
 
 @Component({
   selector: 'app-navigation',
   standalone: true,
-  imports: [CommonModule, RouterModule],
+  imports: [CommonModule, RouterModule, HasPermissionDirective],
   template: `
     <div class="drawer lg:drawer-open">
       <!-- Drawer toggle (hidden checkbox) -->
@@ -56,7 +59,7 @@ export interface NavItem {
           <!-- Navigation menu -->
           <ul class="menu px-4 py-0">
             @for (item of navItems(); track item.route) {
-              <li>
+              <li *appHasPermission="item.permission">
                 <a
                   [routerLink]="item.route"
                   routerLinkActive="active"
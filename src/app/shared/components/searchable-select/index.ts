@@ -1,2 +1,2 @@
 export { SearchableSelectComponent } from './searchable-select.component';
-export type { SelectOption } from './searchable-select.component';
+export type { SelectMode, SelectOption, SelectOptionPage, SelectOptionSource } from './searchable-select.component';
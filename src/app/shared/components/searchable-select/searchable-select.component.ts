@@ -4,6 +4,8 @@
  * A DaisyUI-styled searchable dropdown component
  * Features:
  * - Search/filter options
+ * - Async, paged option sources: debounced server search and more pages on scroll
+ * - Multi-select and free-text tag modes, with removable chips
  * - Keyboard navigation
  * - Loading state
  * - Clear selection
@@ -15,9 +17,11 @@ import {
   Input,
   Output,
   EventEmitter,
+  OnDestroy,
   signal,
   computed,
   effect,
+  untracked,
   ElementRef,
   ViewChild,
 } from '@angular/core';
@@ -30,47 +34,117 @@ export interface SelectOption {
   disabled?: boolean;
 }
 
+/**
+ * A page of options loaded from an option source
+ */
+export interface SelectOptionPage {
+  options: SelectOption[];
+  hasMore: boolean;
+}
+
+/**
+ * Selection mode
+ * - `single`: one value (`value` / `valueChange`)
+ * - `multiple`: several options, shown as removable chips (`values` / `valuesChange`)
+ * - `tags`: like `multiple`, and typed text is added as a tag on Enter or comma
+ */
+export type SelectMode = 'single' | 'multiple' | 'tags';
+
+/**
+ * Async, paged source of options, queried as the user searches and scrolls
+ */
+export interface SelectOptionSource {
+  /** Load a page (1-based) of the options matching the search term */
+  load(search: string, page: number, signal: AbortSignal): Promise<SelectOptionPage>;
+  /** Look up the option of a value that isn't loaded, e.g. an initial value */
+  resolve?(value: string, signal: AbortSignal): Promise<SelectOption | null>;
+}
+
 @Component({
   selector: 'app-searchable-select',
   standalone: true,
   imports: [CommonModule, FormsModule],
   template: `
     <div class="dropdown w-full" [class.dropdown-open]="isOpen()">
-      <div
-        tabindex="0"
-        role="button"
-        class="input input-bordered w-full flex items-center justify-between cursor-pointer"
-        [class.input-error]="_error()"
-        (click)="toggleDropdown()"
-      >
-        <span [class.text-gray-400]="!selectedOption()">
-          {{ selectedOption()?.label || _placeholder() }}
-        </span>
-        <svg class="h-4 w-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7" />
-        </svg>
-      </div>
+      @if (isMultiple()) {
+        <!-- Chips of the selected values, followed by the search (or tag) input -->
+        <div
+          class="input input-bordered w-full h-auto min-h-12 flex flex-wrap items-center gap-1 py-1.5 cursor-text"
+          [class.input-error]="_error()"
+          (click)="openDropdown()"
+        >
+          @for (option of selectedOptions(); track option.value) {
+            <span class="badge badge-primary gap-1">
+              {{ option.label }}
+              <button
+                type="button"
+                class="leading-none opacity-70 hover:opacity-100"
+                [attr.aria-label]="'Remove ' + option.label"
+                (click)="removeValue(option.value); $event.stopPropagation()"
+                (keydown)="onChipKeyDown($event, option.value)"
+              >
+                ✕
+              </button>
+            </span>
+          }
+          <input
+            #searchInput
+            type="text"
+            [placeholder]="_values().length === 0 ? _placeholder() : ''"
+            [attr.aria-label]="_placeholder()"
+            [ngModel]="searchTerm()"
+            (ngModelChange)="onSearchChange($event)"
+            (keydown)="onKeyDown($event)"
+            class="flex-1 min-w-24 bg-transparent text-sm outline-none"
+          />
+        </div>
+      } @else {
+        <div
+          tabindex="0"
+          role="button"
+          class="input input-bordered w-full flex items-center justify-between cursor-pointer"
+          [class.input-error]="_error()"
+          (click)="toggleDropdown()"
+        >
+          <span [class.text-gray-400]="!selectedOption()">
+            {{ selectedOption()?.label || _placeholder() }}
+          </span>
+          <svg class="h-4 w-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      }
 
       @if (isOpen()) {
         <div
           class="dropdown-content z-[1] menu p-2 shadow bg-base-100 rounded-box w-full mt-1 max-h-60 overflow-y-auto"
           (click)="$event.stopPropagation()"
+          (scroll)="onOptionsScroll($event)"
         >
           <!-- Search Input -->
-          <div class="px-2 pb-2">
-            <input
-              #searchInput
-              type="text"
-              placeholder="Search..."
-              [(ngModel)]="searchTerm"
-              (input)="onSearchChange()"
-              (keydown)="onKeyDown($event)"
-              class="input input-sm input-bordered w-full"
-            />
-          </div>
+          @if (!isMultiple()) {
+            <div class="px-2 pb-2">
+              <input
+                #searchInput
+                type="text"
+                placeholder="Search..."
+                [ngModel]="searchTerm()"
+                (ngModelChange)="onSearchChange($event)"
+                (keydown)="onKeyDown($event)"
+                class="input input-sm input-bordered w-full"
+              />
+            </div>
+          }
+
+          <!-- Typed text as a new tag -->
+          @if (newTag()) {
+            <li>
+              <a (click)="addTag(newTag())">Add "{{ newTag() }}"</a>
+            </li>
+          }
 
           <!-- Loading State -->
-          @if (_loading()) {
+          @if (isLoading()) {
             <li class="px-4 py-2 text-gray-500">
               <span class="loading loading-spinner loading-sm"></span>
               Loading...
@@ -78,11 +152,11 @@ export interface SelectOption {
           }
 
           <!-- Options -->
-          @if (!_loading() && filteredOptions().length > 0) {
+          @if (!isLoading() && filteredOptions().length > 0) {
             @for (option of filteredOptions(); track option.value) {
               <li>
                 <a
-                  [class.active]="option.value === _value()"
+                  [class.active]="isSelected(option.value)"
                   [class.disabled]="option.disabled"
                   (click)="selectOption(option)"
                 >
@@ -92,8 +166,26 @@ export interface SelectOption {
             }
           }
 
+          <!-- Next page of an option source -->
+          @if (loadingMore()) {
+            <li class="px-4 py-2 text-gray-500">
+              <span class="loading loading-spinner loading-sm"></span>
+              Loading more...
+            </li>
+          }
+
           <!-- No Results -->
-          @if (!_loading() && filteredOptions().length === 0) {
+          @if (!isLoading() && sourceFailed()) {
+            <li class="px-4 py-2 text-error text-center">
+              Could not load options
+            </li>
+          } @else if (!isLoading() && filteredOptions().length === 0 && _mode() === 'tags') {
+            @if (!newTag()) {
+              <li class="px-4 py-2 text-gray-500 text-center">
+                Type and press Enter to add a tag
+              </li>
+            }
+          } @else if (!isLoading() && filteredOptions().length === 0) {
             <li class="px-4 py-2 text-gray-500 text-center">
               No results found
             </li>
@@ -109,11 +201,21 @@ export interface SelectOption {
     }
   `,
 })
-export class SearchableSelectComponent {
+export class SearchableSelectComponent implements OnDestroy {
   @Input() set options(value: SelectOption[]) {
     this._options.set(value || []);
   }
 
+  /**
+   * Load options from a source instead of `options`
+   * Searching queries the source after `searchDebounce` ms; scrolling to the end loads the next page.
+   */
+  @Input() set optionSource(source: SelectOptionSource | null) {
+    this._optionSource.set(source);
+  }
+
+  @Input() searchDebounce = 300;
+
   @Input() set value(val: string | null) {
     this._value.set(val);
   }
@@ -121,6 +223,21 @@ export class SearchableSelectComponent {
     return this._value();
   }
 
+  /**
+   * Several values as chips (`multiple`), optionally with free-text entry (`tags`)
+   * Multi-value modes bind `values` / `valuesChange` instead of `value` / `valueChange`.
+   */
+  @Input() set mode(val: SelectMode) {
+    this._mode.set(val);
+  }
+
+  @Input() set values(val: string[] | null) {
+    this._values.set(val || []);
+  }
+  get values(): string[] {
+    return this._values();
+  }
+
   @Input() set placeholder(val: string) {
     this._placeholder.set(val);
   }
@@ -134,20 +251,42 @@ export class SearchableSelectComponent {
   }
 
   @Output() valueChange = new EventEmitter<string>();
+  @Output() valuesChange = new EventEmitter<string[]>();
   @Output() searchChange = new EventEmitter<string>();
 
   @ViewChild('searchInput') searchInput?: ElementRef<HTMLInputElement>;
 
   protected _options = signal<SelectOption[]>([]);
   protected _value = signal<string | null>(null);
+  protected _mode = signal<SelectMode>('single');
+  protected _values = signal<string[]>([]);
   protected _placeholder = signal('Select an option');
   protected _loading = signal(false);
   protected _error = signal<string | null>(null);
   protected isOpen = signal(false);
-  protected searchTerm = '';
+  protected searchTerm = signal('');
+
+  // Option source state: loaded pages, and options known from selecting or resolving a value
+  protected _optionSource = signal<SelectOptionSource | null>(null);
+  private sourceOptions = signal<SelectOption[]>([]);
+  private sourcePage = signal(0);
+  private hasMore = signal(false);
+  private sourceLoading = signal(false);
+  protected sourceFailed = signal(false);
+  private knownOptions = signal<SelectOption[]>([]);
+  private sourceRequest?: AbortController;
+  private searchTimer?: ReturnType<typeof setTimeout>;
+
+  protected isLoading = computed(() => this._loading() || (this.sourceLoading() && this.sourcePage() === 0));
+  protected loadingMore = computed(() => this.sourceLoading() && this.sourcePage() > 0);
 
   protected filteredOptions = computed(() => {
-    const search = this.searchTerm.toLowerCase().trim();
+    // Option sources search on the server
+    if (this._optionSource()) {
+      return this.sourceOptions();
+    }
+
+    const search = this.searchTerm().toLowerCase().trim();
     if (!search) {
       return this._options();
     }
@@ -159,7 +298,23 @@ export class SearchableSelectComponent {
   protected selectedOption = computed(() => {
     const val = this._value();
     if (!val) return null;
-    return this._options().find((opt) => opt.value === val);
+    return this.findOption(val);
+  });
+
+  protected isMultiple = computed(() => this._mode() !== 'single');
+
+  // Tags without a matching option are shown as typed
+  protected selectedOptions = computed(() =>
+    this._values().map((value) => this.findOption(value) ?? { label: value, value })
+  );
+
+  // Typed text that Enter would add as a new tag
+  protected newTag = computed(() => {
+    const term = this.searchTerm().trim();
+    if (this._mode() !== 'tags' || !term || this.findTagOption(term) || this._values().includes(term)) {
+      return '';
+    }
+    return term;
   });
 
   constructor() {
@@ -183,31 +338,221 @@ export class SearchableSelectComponent {
       }
       return () => {};
     });
+
+    // Look up the labels of values the option source hasn't loaded
+    effect((onCleanup) => {
+      const source = this._optionSource();
+      const values = this.isMultiple() ? this._values() : [this._value()];
+      const missing = values.filter((value): value is string => !!value && !untracked(() => this.findOption(value)));
+      if (!source?.resolve || missing.length === 0) {
+        return;
+      }
+
+      const controller = new AbortController();
+      onCleanup(() => controller.abort());
+      for (const value of missing) {
+        source
+          .resolve(value, controller.signal)
+          .then((option) => {
+            if (option && !controller.signal.aborted) {
+              this.knownOptions.update((options) => [...options, option]);
+            }
+          })
+          .catch(() => undefined);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    clearTimeout(this.searchTimer);
+    this.sourceRequest?.abort();
   }
 
   protected toggleDropdown(): void {
     this.isOpen.update((val) => !val);
     if (this.isOpen()) {
-      this.searchTerm = '';
+      this.searchTerm.set('');
+      this.loadPage(1);
+    }
+  }
+
+  protected openDropdown(): void {
+    if (!this.isOpen()) {
+      this.toggleDropdown();
     }
   }
 
   protected selectOption(option: SelectOption): void {
     if (option.disabled) return;
+    if (this.isMultiple()) {
+      this.toggleValue(option);
+      return;
+    }
     this._value.set(option.value);
+    this.knownOptions.update((options) => [...options, option]);
     this.valueChange.emit(option.value);
     this.isOpen.set(false);
-    this.searchTerm = '';
+    this.searchTerm.set('');
+  }
+
+  protected onSearchChange(term: string): void {
+    this.searchTerm.set(term);
+    this.searchChange.emit(term);
+
+    // The input of the multi-value modes stays visible, so typing opens the options
+    if (this.isMultiple()) {
+      this.isOpen.set(true);
+    }
+
+    if (this._optionSource()) {
+      clearTimeout(this.searchTimer);
+      this.searchTimer = setTimeout(() => this.loadPage(1), this.searchDebounce);
+    }
   }
 
-  protected onSearchChange(): void {
-    this.searchChange.emit(this.searchTerm);
+  /**
+   * Load the next page of the option source when the list is scrolled to its end
+   */
+  protected onOptionsScroll(event: Event): void {
+    const list = event.target as HTMLElement;
+    const atEnd = list.scrollTop + list.clientHeight >= list.scrollHeight - 40;
+    if (atEnd && this.hasMore() && !this.sourceLoading()) {
+      this.loadPage(this.sourcePage() + 1);
+    }
+  }
+
+  /**
+   * Load a page of the option source for the current search term
+   * Page 1 replaces the loaded options; a newer request cancels a running one.
+   */
+  private async loadPage(page: number): Promise<void> {
+    const source = this._optionSource();
+    if (!source) return;
+
+    this.sourceRequest?.abort();
+    const request = (this.sourceRequest = new AbortController());
+    if (page === 1) {
+      this.sourcePage.set(0);
+    }
+    this.sourceLoading.set(true);
+    this.sourceFailed.set(false);
+
+    try {
+      const result = await source.load(this.searchTerm().trim(), page, request.signal);
+      if (request.signal.aborted) return;
+
+      this.sourceOptions.update((options) => (page === 1 ? result.options : [...options, ...result.options]));
+      this.sourcePage.set(page);
+      this.hasMore.set(result.hasMore);
+    } catch {
+      if (request.signal.aborted) return;
+      this.hasMore.set(false);
+      this.sourceFailed.set(true);
+    } finally {
+      if (this.sourceRequest === request) {
+        this.sourceLoading.set(false);
+      }
+    }
+  }
+
+  protected isSelected(value: string): boolean {
+    return this.isMultiple() ? this._values().includes(value) : value === this._value();
+  }
+
+  /**
+   * Add the typed text as a tag, or select the option it names
+   */
+  protected addTag(text: string): void {
+    const term = text.trim();
+    if (!term) return;
+
+    const option = this.findTagOption(term);
+    if (!this._values().includes(option?.value ?? term)) {
+      this.setValues([...this._values(), option?.value ?? term]);
+    }
+    if (option) {
+      this.knownOptions.update((options) => [...options, option]);
+    }
+    this.clearSearch();
+  }
+
+  protected removeValue(value: string): void {
+    this.setValues(this._values().filter((selected) => selected !== value));
   }
 
   protected onKeyDown(event: KeyboardEvent): void {
     if (event.key === 'Escape') {
       this.isOpen.set(false);
       event.preventDefault();
+      return;
+    }
+    if (!this.isMultiple()) return;
+
+    const term = this.searchTerm();
+    if (event.key === 'Backspace' && !term && this._values().length > 0) {
+      // Remove the last chip
+      this.removeValue(this._values()[this._values().length - 1]);
+      event.preventDefault();
+    } else if (event.key === 'Enter' || (event.key === ',' && this._mode() === 'tags')) {
+      // Enter must not submit the surrounding form
+      event.preventDefault();
+      if (this._mode() === 'tags') {
+        this.addTag(term);
+      } else if (term.trim()) {
+        const option = this.filteredOptions().find((opt) => !opt.disabled && !this._values().includes(opt.value));
+        if (option) this.toggleValue(option);
+      }
+    }
+  }
+
+  /**
+   * Remove a chip with Backspace or Delete, and move focus back to the input
+   */
+  protected onChipKeyDown(event: KeyboardEvent, value: string): void {
+    if (event.key === 'Backspace' || event.key === 'Delete') {
+      event.preventDefault();
+      this.removeValue(value);
+      this.searchInput?.nativeElement.focus();
+    }
+  }
+
+  private toggleValue(option: SelectOption): void {
+    if (this._values().includes(option.value)) {
+      this.removeValue(option.value);
+    } else {
+      this.knownOptions.update((options) => [...options, option]);
+      this.setValues([...this._values(), option.value]);
     }
+    this.clearSearch();
+    this.searchInput?.nativeElement.focus();
+  }
+
+  private setValues(values: string[]): void {
+    this._values.set(values);
+    this.valuesChange.emit(values);
+  }
+
+  /**
+   * Clear the search term, reloading the unfiltered options of a source
+   */
+  private clearSearch(): void {
+    if (!this.searchTerm()) return;
+    clearTimeout(this.searchTimer);
+    this.searchTerm.set('');
+    if (this.isOpen()) {
+      this.loadPage(1);
+    }
+  }
+
+  private findOption(value: string): SelectOption | undefined {
+    return [...this._options(), ...this.sourceOptions(), ...this.knownOptions()].find((opt) => opt.value === value);
+  }
+
+  // An option whose label (or value) is the typed text, so tags reuse known options
+  private findTagOption(term: string): SelectOption | undefined {
+    const text = term.toLowerCase();
+    return [...this._options(), ...this.sourceOptions()].find(
+      (opt) => !opt.disabled && (opt.label.toLowerCase() === text || opt.value.toLowerCase() === text)
+    );
   }
 }
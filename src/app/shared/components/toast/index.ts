@@ -0,0 +1,5 @@
+/**
+ * Toast Module Exports
+ */
+
+export * from './toast-container.component';
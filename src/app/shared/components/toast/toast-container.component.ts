@@ -0,0 +1,55 @@
+/**
+ * Toast Container Component
+ *
+ * Renders the global notification queue from NotificationService
+ * Place once in the app shell
+ */
+
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificationService, NotificationType } from '../../../core/notifications/notification.service';
+
+@Component({
+  selector: 'app-toast-container',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="toast toast-end toast-bottom z-50" role="status" aria-live="polite">
+      @for (notification of notificationService.notifications(); track notification.id) {
+        <div class="alert max-w-md shadow-lg" [ngClass]="alertClasses[notification.type]">
+          <div class="flex flex-col gap-1 text-left">
+            @if (notification.title) {
+              <span class="font-semibold">{{ notification.title }}</span>
+            }
+            <span>{{ notification.message }}</span>
+            @if (notification.details?.length) {
+              <ul class="list-disc list-inside text-sm opacity-90">
+                @for (detail of notification.details; track $index) {
+                  <li>{{ detail }}</li>
+                }
+              </ul>
+            }
+          </div>
+          <button
+            type="button"
+            class="btn btn-ghost btn-xs btn-circle"
+            aria-label="Dismiss"
+            (click)="notificationService.dismiss(notification.id)"
+          >
+            ✕
+          </button>
+        </div>
+      }
+    </div>
+  `,
+})
+export class ToastContainerComponent {
+  protected readonly notificationService = inject(NotificationService);
+
+  protected readonly alertClasses: Record<NotificationType, string> = {
+    success: 'alert-success',
+    info: 'alert-info',
+    warning: 'alert-warning',
+    error: 'alert-error',
+  };
+}
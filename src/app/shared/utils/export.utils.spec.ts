@@ -0,0 +1,78 @@
+import { toCsv } from './export.utils';
+
+const csvRow = (...cells: Parameters<typeof toCsv>[0]['rows'][number]) => toCsv({ headers: [], rows: [cells] }).slice(2);
+
+describe('toCsv', () => {
+  it('should join the header and rows with CRLF line endings', () => {
+    expect(toCsv({ headers: ['Audit #', 'State'], rows: [[24001, 'NC'], [24002, 'SC']] })).toBe(
+      'Audit #,State\r\n24001,NC\r\n24002,SC'
+    );
+  });
+
+  describe('escaping', () => {
+    it('should quote fields with commas, quotes or line breaks', () => {
+      expect(csvRow('Smith, John')).toBe('"Smith, John"');
+      expect(csvRow('Valve "A"')).toBe('"Valve ""A"""');
+      expect(csvRow('line 1\nline 2')).toBe('"line 1\nline 2"');
+      expect(csvRow('line 1\r\nline 2')).toBe('"line 1\r\nline 2"');
+    });
+
+    it('should quote fields with leading or trailing whitespace', () => {
+      expect(csvRow(' padded ')).toBe('" padded "');
+    });
+
+    it('should leave plain fields unquoted', () => {
+      expect(csvRow('Charlotte', 'NC')).toBe('Charlotte,NC');
+    });
+  });
+
+  describe('formula injection', () => {
+    it('should prefix cells starting with = + - or @', () => {
+      expect(csvRow('=1+1')).toBe("'=1+1");
+      expect(csvRow('+1+1')).toBe("'+1+1");
+      expect(csvRow('-1+1')).toBe("'-1+1");
+      expect(csvRow('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)");
+      expect(csvRow('=HYPERLINK("http://evil.com")')).toBe(`"'=HYPERLINK(""http://evil.com"")"`);
+    });
+
+    it('should neutralize DDE payloads and keep them quoted', () => {
+      expect(csvRow("=cmd|' /C calc'!A0")).toBe("'=cmd|' /C calc'!A0");
+      expect(csvRow('=1,2')).toBe(`"'=1,2"`);
+    });
+
+    it('should neutralize tab and carriage return prefixes', () => {
+      expect(csvRow('\t=1+1')).toBe("'\t=1+1");
+      expect(csvRow('\rcalc')).toBe(`"'\rcalc"`);
+    });
+
+    it('should neutralize formulas behind leading spaces', () => {
+      expect(csvRow('  =1+1')).toBe("'  =1+1");
+    });
+
+    it('should leave numeric text alone', () => {
+      expect(csvRow('-5', '+3.5', '-1e3')).toBe('-5,+3.5,-1e3');
+    });
+
+    it('should not alter numbers', () => {
+      expect(csvRow(-5)).toBe('-5');
+    });
+  });
+
+  describe('values', () => {
+    it('should write date-only values for midnight dates', () => {
+      expect(csvRow(new Date(2024, 0, 5))).toBe('2024-01-05');
+    });
+
+    it('should write the local date and time otherwise', () => {
+      expect(csvRow(new Date(2024, 11, 31, 13, 4, 9))).toBe('2024-12-31 13:04:09');
+    });
+
+    it('should write empty fields for invalid dates, non-finite numbers and missing values', () => {
+      expect(csvRow(new Date('invalid'), Number.NaN, Infinity, null, undefined)).toBe(',,,,');
+    });
+
+    it('should write booleans as TRUE/FALSE', () => {
+      expect(csvRow(true, false)).toBe('TRUE,FALSE');
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Export utility functions
+ *
+ * Build CSV and XLSX files from rows of cell values, without third-party dependencies
+ */
+
+/**
+ * Cell value of an exported sheet
+ * Dates are written as spreadsheet dates (local time); date-only when the time is midnight.
+ */
+export type ExportCell = string | number | boolean | Date | null | undefined;
+
+/**
+ * Supported export file formats
+ */
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Tabular data to export
+ */
+export interface ExportSheet {
+  /** Sheet name (XLSX only) */
+  name?: string;
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+/**
+ * MIME types of the export formats
+ */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Build a CSV document (RFC 4180: CRLF line endings, quoted fields where needed)
+ */
+export function toCsv(sheet: ExportSheet): string {
+  return [sheet.headers, ...sheet.rows].map((row) => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Build a CSV file; the byte order mark makes Excel read it as UTF-8
+ */
+export function toCsvBlob(sheet: ExportSheet): Blob {
+  return new Blob(['\uFEFF', toCsv(sheet)], { type: EXPORT_MIME_TYPES.csv });
+}
+
+/**
+ * Build a single-sheet XLSX workbook with a bold, frozen header row
+ */
+export function toXlsxBlob(sheet: ExportSheet): Blob {
+  const files: Array<[string, string]> = [
+    ['[Content_Types].xml', CONTENT_TYPES_XML],
+    ['_rels/.rels', ROOT_RELS_XML],
+    ['xl/workbook.xml', workbookXml(sheet.name)],
+    ['xl/_rels/workbook.xml.rels', WORKBOOK_RELS_XML],
+    ['xl/styles.xml', STYLES_XML],
+    ['xl/worksheets/sheet1.xml', worksheetXml(sheet)],
+  ];
+
+  const encoder = new TextEncoder();
+  const zip = createZip(files.map(([name, content]) => ({ name, data: encoder.encode(content) })));
+  return new Blob([zip], { type: EXPORT_MIME_TYPES.xlsx });
+}
+
+/**
+ * Build an export file in the given format
+ */
+export function toExportBlob(sheet: ExportSheet, format: ExportFormat): Blob {
+  return format === 'csv' ? toCsvBlob(sheet) : toXlsxBlob(sheet);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+/**
+ * Characters that make spreadsheet apps evaluate a text cell as a formula
+ * (leading spaces are skipped by some of them)
+ */
+const FORMULA_PREFIX = /^[\t\r]|^\s*[=+\-@]/;
+
+function toCsvField(value: ExportCell): string {
+  let text: string;
+
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = formatLocalDate(value);
+  } else if (typeof value === 'number') {
+    text = Number.isFinite(value) ? String(value) : '';
+  } else if (typeof value === 'boolean') {
+    text = value ? 'TRUE' : 'FALSE';
+  } else {
+    text = value;
+    // Neutralize formula injection, but leave numeric text such as "-5" alone
+    if (FORMULA_PREFIX.test(text) && Number.isNaN(Number(text))) {
+      text = `'${text}`;
+    }
+  }
+
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Local `yyyy-mm-dd`, plus ` hh:mm:ss` when the time is not midnight
+ */
+function formatLocalDate(date: Date): string {
+  if (Number.isNaN(date.getTime())) return '';
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (!hasTime(date)) return day;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function hasTime(date: Date): boolean {
+  return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+}
+
+// ---------------------------------------------------------------------------
+// XLSX (SpreadsheetML parts in a store-only zip)
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+/**
+ * Cell styles: 0 default, 1 header (bold), 2 date, 3 date and time
+ */
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+function workbookXml(name = 'Sheet1'): string {
+  // Excel rejects sheet names over 31 characters or containing []:*?/\
+  const sheetName = name.replace(/[[\]:*?/\\]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+function worksheetXml(sheet: ExportSheet): string {
+  const rows = [
+    rowXml(1, sheet.headers, 1),
+    ...sheet.rows.map((row, index) => rowXml(index + 2, row)),
+  ];
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    colsXml(sheet) +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+/**
+ * Column widths from the longest value (in characters), within sensible bounds
+ */
+function colsXml(sheet: ExportSheet): string {
+  if (sheet.headers.length === 0) return '';
+
+  const cols = sheet.headers.map((header, index) => {
+    const longest = sheet.rows.reduce(
+      (max, row) => Math.max(max, cellWidth(row[index])),
+      header.length
+    );
+    const width = Math.min(Math.max(longest + 2, 8), 60);
+    return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+  });
+  return `<cols>${cols.join('')}</cols>`;
+}
+
+function cellWidth(value: ExportCell): number {
+  if (value instanceof Date) return hasTime(value) ? 16 : 10;
+  return value === null || value === undefined ? 0 : String(value).length;
+}
+
+function rowXml(rowNumber: number, cells: ExportCell[], style = 0): string {
+  const xml = cells.map((value, index) => cellXml(`${columnName(index)}${rowNumber}`, value, style)).join('');
+  return `<row r="${rowNumber}">${xml}</row>`;
+}
+
+function cellXml(ref: string, value: ExportCell, style: number): string {
+  const s = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined) return '';
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    return `<c r="${ref}" s="${hasTime(value) ? 3 : 2}"><v>${toExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Days since 1899-12-30 of the local date and time (Excel's 1900 date system)
+ */
+function toExcelSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return utc / 86_400_000 + 25_569;
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Zip (store method, no compression)
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // central directory signature
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // local header offset
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
@@ -0,0 +1,151 @@
+/**
+ * File utility functions
+ */
+
+import { client } from '@/core/api/generated/client.gen';
+
+/**
+ * Base64 file payload returned by download endpoints
+ */
+export interface Base64FilePayload {
+  content?: string;
+  contentType?: string;
+  fileName?: string;
+  inline?: boolean;
+}
+
+/**
+ * Response statuses that must not carry a body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Decode a base64 string into a Blob
+ */
+export function base64ToBlob(content: string, contentType = 'application/octet-stream'): Blob {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+}
+
+/**
+ * Hand a Blob to the browser, either opened in a new tab (inline) or saved as a download
+ */
+export function saveBlob(blob: Blob, fileName: string, inline = false): void {
+  const url = URL.createObjectURL(blob);
+
+  if (inline) {
+    window.open(url, '_blank', 'noopener');
+  } else {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  }
+
+  // Give the browser time to start reading the object URL before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/**
+ * Decode a base64 download payload and hand it to the browser
+ */
+export function downloadBase64File(payload: Base64FilePayload): void {
+  if (!payload.content) {
+    throw new Error('File content is empty');
+  }
+
+  const blob = base64ToBlob(payload.content, payload.contentType || undefined);
+  saveBlob(blob, payload.fileName || 'download', payload.inline);
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Create a fetch implementation backed by XMLHttpRequest that reports upload progress.
+ * Pass it as the `fetch` option of a generated SDK call.
+ *
+ * When the generated client has its own `fetch` configured (e.g. the mock backend),
+ * an XHR would bypass it, so requests go through that fetch and only completion is reported.
+ */
+export function createUploadProgressFetch(onProgress: (percent: number) => void): typeof fetch {
+  const configuredFetch = client.getConfig().fetch;
+  if (configuredFetch) {
+    return async (input, init) => {
+      const response = await configuredFetch(input, init);
+      onProgress(100);
+      return response;
+    };
+  }
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const body = request.method === 'GET' || request.method === 'HEAD' ? null : await request.blob();
+
+    return new Promise<Response>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(request.method, request.url);
+      xhr.responseType = 'blob';
+      xhr.withCredentials = request.credentials === 'include';
+      request.headers.forEach((value, key) => xhr.setRequestHeader(key, value));
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+
+      xhr.onload = () => {
+        onProgress(100);
+        resolve(
+          new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response, {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+          })
+        );
+      };
+      xhr.onerror = () => reject(new TypeError('Network request failed'));
+      xhr.onabort = () => reject(new DOMException('The request was aborted', 'AbortError'));
+      request.signal.addEventListener('abort', () => xhr.abort());
+
+      xhr.send(body);
+    });
+  };
+}
+
+/**
+ * Parse the raw XMLHttpRequest header string
+ */
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .filter(Boolean)
+    .forEach((line) => {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      }
+    });
+  return headers;
+}
@@ -0,0 +1,109 @@
+/**
+ * Option sources for searchable selects
+ *
+ * Searchable, paged options backed by the reference data endpoints. Responses go through
+ * the query cache, so reopening a select or scrolling back over a search doesn't refetch.
+ */
+
+import type { QueryClient } from '@tanstack/angular-query-experimental';
+
+import type { AuditResponse, PersonnelResponse, SupplierDetailsResponse } from '@/core/api/generated';
+import {
+  referenceAuditsGetReferenceAuditsOptions,
+  referencePersonnelGetPersonnelByNumberOptions,
+  referencePersonnelSearchPersonnelOptions,
+  referenceSuppliersGetSupplierByNumberOptions,
+  referenceSuppliersSearchSuppliersOptions,
+} from '@/core/api/generated/@tanstack/angular-query-experimental.gen';
+import type { SelectOption, SelectOptionSource } from '../components/searchable-select';
+
+/**
+ * Options per page
+ */
+export const OPTION_PAGE_SIZE = 20;
+
+/**
+ * NUPIC reference audits, by audit number
+ */
+export function referenceAuditOptionSource(queryClient: QueryClient): SelectOptionSource {
+  return {
+    async load(search, page) {
+      const audits = await queryClient.fetchQuery(
+        referenceAuditsGetReferenceAuditsOptions({
+          query: { search: search || undefined, pageNumber: page, pageSize: OPTION_PAGE_SIZE },
+        })
+      );
+      return {
+        options: (audits.items ?? []).filter((audit) => audit.auditNumber).map(toAuditOption),
+        hasMore: !!audits.hasNextPage,
+      };
+    },
+  };
+}
+
+/**
+ * Reference suppliers, by supplier number
+ * The search endpoint isn't paged, so pages are cut from its (cached) result.
+ */
+export function supplierOptionSource(queryClient: QueryClient): SelectOptionSource {
+  return {
+    async load(search, page) {
+      const suppliers = await queryClient.fetchQuery(
+        referenceSuppliersSearchSuppliersOptions({ query: { searchTerm: search || undefined } })
+      );
+      const options = suppliers.filter((supplier) => supplier.supplierNumber).map(toSupplierOption);
+      return {
+        options: options.slice((page - 1) * OPTION_PAGE_SIZE, page * OPTION_PAGE_SIZE),
+        hasMore: options.length > page * OPTION_PAGE_SIZE,
+      };
+    },
+    async resolve(supplierNumber) {
+      const supplier = await queryClient.fetchQuery(
+        referenceSuppliersGetSupplierByNumberOptions({ path: { supplierNumber } })
+      );
+      return supplier.supplierNumber ? toSupplierOption(supplier) : null;
+    },
+  };
+}
+
+/**
+ * Reference personnel, by personnel number
+ * The search endpoint only limits its results (`take`), so each page asks for
+ * everything up to its end and keeps the last page.
+ */
+export function personnelOptionSource(queryClient: QueryClient): SelectOptionSource {
+  return {
+    async load(search, page) {
+      const take = page * OPTION_PAGE_SIZE;
+      const result = await queryClient.fetchQuery(
+        referencePersonnelSearchPersonnelOptions({ query: { term: search || undefined, take } })
+      );
+      const personnel = result.data ?? [];
+      return {
+        options: personnel
+          .slice(take - OPTION_PAGE_SIZE)
+          .filter((person) => person.personnelNumber != null)
+          .map(toPersonnelOption),
+        hasMore: personnel.length >= take,
+      };
+    },
+    async resolve(personnelNumber) {
+      const result = await queryClient.fetchQuery(
+        referencePersonnelGetPersonnelByNumberOptions({ path: { personnelNumber: Number(personnelNumber) } })
+      );
+      return result.data?.personnelNumber != null ? toPersonnelOption(result.data) : null;
+    },
+  };
+}
+
+function toAuditOption(audit: AuditResponse): SelectOption {
+  return { label: `${audit.auditNumber} - ${audit.supplierNumber || 'N/A'}`, value: audit.auditNumber! };
+}
+
+function toSupplierOption(supplier: SupplierDetailsResponse): SelectOption {
+  return { label: `${supplier.supplierNumber} - ${supplier.supplierName || 'N/A'}`, value: supplier.supplierNumber! };
+}
+
+function toPersonnelOption(person: PersonnelResponse): SelectOption {
+  return { label: `${person.personnelNumber} - ${person.name || person.email || 'N/A'}`, value: String(person.personnelNumber) };
+}
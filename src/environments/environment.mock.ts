@@ -0,0 +1,25 @@
+/**
+ * Mock environment (`npm run start:mock`, Playwright)
+ *
+ * Runs the app against the in-process mock API with a fake signed-in user,
+ * so no API server or Azure AD tenant is needed. Contains no secrets.
+ */
+export const environment = {
+  production: false,
+  appName: 'NUPIC Document Manager',
+  companyName: 'Mock Company',
+
+  // NUPIC API Configuration (requests never leave the browser)
+  baseUrl: 'https://localhost:53928',
+  apiUrl: 'https://localhost:53928/api',
+
+  // MSAL Configuration (placeholder values: MSAL is never initialized in mock mode)
+  msal: {
+    clientId: '00000000-0000-0000-0000-000000000000',
+    authority: 'https://login.microsoftonline.com/common',
+    redirectUri: '/auth',
+    postLogoutRedirectUri: '/',
+    scopes: ['api://00000000-0000-0000-0000-000000000000/access_as_user', 'User.Read', 'profile', 'email', 'openid'],
+    protectedResourceMap: new Map<string, string[]>(),
+  },
+};